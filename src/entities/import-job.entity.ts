@@ -0,0 +1,90 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import type { MappingRules } from '../jobs/imports/mapping';
+
+@Entity('import_jobs')
+@Index('idx_import_job_state', ['state'])
+@Index('idx_import_job_created_at', ['created_at'])
+export class ImportJob {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  // running | completed | failed
+  @Column({ type: 'varchar', length: 12, default: 'running' })
+  state!: string;
+
+  // csv | ndjson | json | xlsx
+  @Column({ type: 'varchar', length: 10 })
+  format!: string;
+
+  // Name of the uploaded file, or the bundled file for local imports
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  file_name?: string | null;
+
+  // Where the file is read from, also when resuming after a restart
+  @Column({ type: 'text' })
+  file_path!: string;
+
+  // Uploaded files are removed once the import ends; bundled ones are kept
+  @Column({ type: 'boolean', default: true })
+  delete_file!: boolean;
+
+  @Column({ type: 'varchar', length: 100 })
+  id_column!: string;
+
+  @Column({ type: 'int' })
+  batch_size!: number;
+
+  @Column({ type: 'int' })
+  interval_ms!: number;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  mapping_profile?: string | null;
+
+  // Rules of the mapping profile as they were when the import started
+  @Column({ type: 'jsonb', nullable: true })
+  mapping?: MappingRules | null;
+
+  // Records parsed so far; final once total_known is true
+  @Column({ type: 'int', default: 0 })
+  total!: number;
+
+  @Column({ type: 'boolean', default: false })
+  total_known!: boolean;
+
+  // Records stored; processed + failed is the resume cursor (records done
+  // from the start of the file)
+  @Column({ type: 'int', default: 0 })
+  processed!: number;
+
+  @Column({ type: 'int', default: 0 })
+  inserted!: number;
+
+  @Column({ type: 'int', default: 0 })
+  skipped!: number;
+
+  @Column({ type: 'int', default: 0 })
+  failed!: number;
+
+  @Column({ type: 'text', nullable: true })
+  last_error?: string | null;
+
+  // Times the import was picked up again after a restart
+  @Column({ type: 'int', default: 0 })
+  resumed!: number;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  created_at!: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updated_at!: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  finished_at?: Date | null;
+}
@@ -0,0 +1,37 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import type { ColumnMapping } from '../jobs/imports/mapping';
+
+@Entity('import_mapping_profiles')
+@Index('uq_import_mapping_profile_name', ['name'], { unique: true })
+export class ImportMappingProfile {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  // Selected per import by id or name
+  @Column({ type: 'varchar', length: 100 })
+  name!: string;
+
+  @Column({ type: 'text', nullable: true })
+  description?: string | null;
+
+  // Source column -> canonical key with value transforms, validated by parseColumnMappings
+  @Column({ type: 'jsonb' })
+  columns!: ColumnMapping[];
+
+  // Keep columns without a mapping under their own name
+  @Column({ type: 'boolean', default: true })
+  keep_unmapped!: boolean;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  created_at!: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updated_at!: Date;
+}
@@ -6,9 +6,20 @@ import {
   PrimaryGeneratedColumn,
   UpdateDateColumn,
 } from 'typeorm';
+import {
+  SEARCH_VECTOR_EXPRESSION,
+  SEARCH_VECTOR_INDEX,
+} from '../jobs/search/full-text';
 
 @Entity('job_postings')
 @Index('uq_job_posting_id', ['job_posting_id'], { unique: true })
+@Index('idx_job_posting_lat_lon', ['latitude', 'longitude'])
+@Index('idx_job_posting_region', ['location_country', 'location_region'])
+@Index('idx_job_posting_workplace', ['workplace_type'])
+@Index('idx_job_posting_seniority', ['seniority'])
+@Index('idx_job_posting_salary', ['salary_annual_min', 'salary_annual_max'])
+@Index('idx_job_posting_enrichment_version', ['enrichment_version'])
+@Index('idx_job_posting_cluster', ['cluster_id', 'created_at'])
 export class JobPosting {
   @PrimaryGeneratedColumn('uuid')
   id!: string;
@@ -25,6 +36,75 @@ export class JobPosting {
   @Column({ type: 'varchar', length: 255, nullable: true })
   resume_email?: string;
 
+  // Parsed from data.job_location at import time (see enrichment/location.ts)
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  location_city?: string | null;
+
+  @Column({ type: 'varchar', length: 10, nullable: true })
+  location_region?: string | null;
+
+  @Column({ type: 'varchar', length: 2, nullable: true })
+  location_country?: string | null;
+
+  @Column({ type: 'double precision', nullable: true })
+  latitude?: number | null;
+
+  @Column({ type: 'double precision', nullable: true })
+  longitude?: number | null;
+
+  // remote | hybrid | onsite, classified at import time (see enrichment/workplace.ts)
+  @Column({ type: 'varchar', length: 10, nullable: true })
+  workplace_type?: string | null;
+
+  @Column({ type: 'real', nullable: true })
+  workplace_confidence?: number | null;
+
+  // Pay extracted from data.job_summary (see enrichment/salary.ts), as stated
+  @Column({ type: 'double precision', nullable: true })
+  salary_min?: number | null;
+
+  @Column({ type: 'double precision', nullable: true })
+  salary_max?: number | null;
+
+  @Column({ type: 'varchar', length: 3, nullable: true })
+  salary_currency?: string | null;
+
+  // hour | day | week | month | year
+  @Column({ type: 'varchar', length: 10, nullable: true })
+  salary_period?: string | null;
+
+  // Annualized (full-time) amounts used by the salary filters and sort
+  @Column({ type: 'double precision', nullable: true })
+  salary_annual_min?: number | null;
+
+  @Column({ type: 'double precision', nullable: true })
+  salary_annual_max?: number | null;
+
+  // intern | entry | mid | senior | lead | manager | director (see enrichment/seniority.ts)
+  @Column({ type: 'varchar', length: 10, nullable: true })
+  seniority?: string | null;
+
+  // Shared by near-duplicate postings (see enrichment/duplicates.ts)
+  @Column({ type: 'varchar', length: 40, nullable: true })
+  cluster_id?: string | null;
+
+  // ENRICHMENT_VERSION the derived columns were computed with (0 = never)
+  @Column({ type: 'int', default: 0 })
+  enrichment_version!: number;
+
+  // Maintained by Postgres; GIN index is created in JobsService.onModuleInit
+  @Index(SEARCH_VECTOR_INDEX, { synchronize: false })
+  @Column({
+    type: 'tsvector',
+    generatedType: 'STORED',
+    asExpression: SEARCH_VECTOR_EXPRESSION,
+    nullable: true,
+    select: false,
+    insert: false,
+    update: false,
+  })
+  search_vector?: string;
+
   @CreateDateColumn({ type: 'timestamptz' })
   created_at!: Date;
 
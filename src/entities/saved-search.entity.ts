@@ -0,0 +1,54 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import type { SavedSearchParams } from '../jobs/alerts/saved-search';
+
+@Entity('saved_searches')
+@Index('idx_saved_search_email', ['email'])
+@Index('uq_saved_search_unsubscribe_token', ['unsubscribe_token'], {
+  unique: true,
+})
+export class SavedSearch {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  // Owner and digest recipient (stored lowercase)
+  @Column({ type: 'varchar', length: 255 })
+  email!: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  name?: string | null;
+
+  // /jobs/search filters, validated by parseSavedSearchParams
+  @Column({ type: 'jsonb' })
+  params!: SavedSearchParams;
+
+  // instant | daily | weekly
+  @Column({ type: 'varchar', length: 10, default: 'daily' })
+  frequency!: string;
+
+  @Column({ type: 'boolean', default: true })
+  active!: boolean;
+
+  // Secret for the one-click unsubscribe link
+  @Column({ type: 'varchar', length: 64 })
+  unsubscribe_token!: string;
+
+  // Postings created after this were not yet considered for a digest
+  @Column({ type: 'timestamptz' })
+  last_checked_at!: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  last_sent_at?: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  created_at!: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updated_at!: Date;
+}
@@ -0,0 +1,49 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+// One /jobs/search call, recorded for search analytics
+@Entity('search_events')
+@Index('idx_search_event_created_at', ['created_at'])
+@Index('idx_search_event_query', ['query', 'created_at'])
+export class SearchEvent {
+  // Also returned to the client as searchId, to report clicks against
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  // Lowercased, whitespace-collapsed query (null when only filters were used)
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  query?: string | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  location?: string | null;
+
+  // Remaining filters and the sort mode, unset ones omitted
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  filters!: Record<string, unknown>;
+
+  // Total matches (null when the count was skipped, e.g. cursor pages)
+  @Column({ type: 'int', nullable: true })
+  result_count?: number | null;
+
+  // Rows on the returned page
+  @Column({ type: 'int', default: 0 })
+  returned_count!: number;
+
+  // false for cursor/offset pages, which reports leave out
+  @Column({ type: 'boolean', default: true })
+  first_page!: boolean;
+
+  @Column({ type: 'int', default: 0 })
+  latency_ms!: number;
+
+  @Column({ type: 'int', default: 0 })
+  clicks!: number;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  created_at!: Date;
+}
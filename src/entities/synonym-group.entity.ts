@@ -0,0 +1,32 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+@Entity('synonym_groups')
+@Index('uq_synonym_group_key', ['key'], { unique: true })
+export class SynonymGroup {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  // Lowercase token fragment that triggers the group
+  @Column({ type: 'varchar', length: 255 })
+  key!: string;
+
+  @Column({ type: 'text', array: true, default: () => "'{}'" })
+  terms!: string[];
+
+  // false: key -> terms only, true: key and every term expand to the whole group
+  @Column({ type: 'boolean', default: false })
+  bidirectional!: boolean;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  created_at!: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updated_at!: Date;
+}
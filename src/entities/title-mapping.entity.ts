@@ -0,0 +1,29 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+@Entity('title_mappings')
+@Index('uq_title_mapping_keyword', ['keyword'], { unique: true })
+export class TitleMapping {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  // Lowercase query keyword ("software", "nurse")
+  @Column({ type: 'varchar', length: 255 })
+  keyword!: string;
+
+  // Job titles admitted when the query contains the keyword
+  @Column({ type: 'text', array: true, default: () => "'{}'" })
+  titles!: string[];
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  created_at!: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updated_at!: Date;
+}
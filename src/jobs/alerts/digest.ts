@@ -0,0 +1,136 @@
+import { SavedSearchParams } from './saved-search';
+
+/**
+ * Digest email for a saved search: the new postings (title, company, location,
+ * salary) plus the one-click unsubscribe link.
+ */
+export interface DigestPosting {
+  job_posting_id: string;
+  job_title?: string;
+  company_name?: string;
+  job_location?: string;
+  job_url?: string;
+  salary?: {
+    min: number;
+    max: number;
+    currency: string | null;
+    period: string | null;
+  } | null;
+}
+
+export interface DigestEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Short human label for the filters ("nurse in Toronto, remote")
+ */
+export function describeSearch(params: SavedSearchParams): string {
+  const parts: string[] = [];
+  if (params.query) parts.push(`"${params.query}"`);
+  if (params.location) parts.push(`in ${params.location}`);
+  if (params.near) {
+    parts.push(
+      `within ${params.radiusKm ?? 50} km of ${params.near.latitude.toFixed(2)},${params.near.longitude.toFixed(2)}`,
+    );
+  }
+  if (params.region) parts.push(params.region);
+  if (params.country) parts.push(params.country);
+  if (params.workplace?.length) parts.push(params.workplace.join('/'));
+  if (params.seniority?.length) parts.push(params.seniority.join('/'));
+  if (params.jobFunction) parts.push(params.jobFunction);
+  if (params.minSalary !== undefined) parts.push(`from ${params.minSalary}/yr`);
+  if (params.maxSalary !== undefined)
+    parts.push(`up to ${params.maxSalary}/yr`);
+  if (params.scoreBucket) parts.push(`score ${params.scoreBucket}`);
+  if (params.isEmailAvailable !== undefined) {
+    parts.push(params.isEmailAvailable ? 'with email' : 'without email');
+  }
+  return parts.join(', ') || 'all jobs';
+}
+
+function formatSalary(salary: DigestPosting['salary']): string | null {
+  if (!salary) return null;
+  const amount =
+    salary.min === salary.max
+      ? salary.min.toLocaleString('en-US')
+      : `${salary.min.toLocaleString('en-US')}–${salary.max.toLocaleString('en-US')}`;
+  return `${amount} ${salary.currency ?? ''}${salary.period ? ` / ${salary.period}` : ''}`.trim();
+}
+
+export function renderDigest(opts: {
+  searchName: string | null | undefined;
+  params: SavedSearchParams;
+  postings: DigestPosting[];
+  // New matches in total (postings holds at most DIGEST_RESULT_LIMIT of them)
+  total: number;
+  unsubscribeUrl: string;
+}): DigestEmail {
+  const label = opts.searchName || describeSearch(opts.params);
+  const subject = `${opts.total} new job${opts.total === 1 ? '' : 's'} for ${label}`;
+
+  const lines = opts.postings.map((p) => {
+    const details = [p.company_name, p.job_location, formatSalary(p.salary)]
+      .filter(Boolean)
+      .join(' · ');
+    return { title: p.job_title || p.job_posting_id, details, url: p.job_url };
+  });
+  const more = opts.total - opts.postings.length;
+
+  const text = [
+    subject,
+    '',
+    ...lines.map(
+      (l) =>
+        `- ${l.title}${l.details ? ` (${l.details})` : ''}${l.url ? `\n  ${l.url}` : ''}`,
+    ),
+    ...(more > 0 ? ['', `...and ${more} more.`] : []),
+    '',
+    `Unsubscribe: ${opts.unsubscribeUrl}`,
+  ].join('\n');
+
+  const items = lines
+    .map((l) => {
+      const title = l.url
+        ? `<a href="${escapeHtml(l.url)}">${escapeHtml(l.title)}</a>`
+        : escapeHtml(l.title);
+      const details = l.details
+        ? `<div style="color:#666;font-size:14px;">${escapeHtml(l.details)}</div>`
+        : '';
+      return `<li style="margin-bottom:12px;">${title}${details}</li>`;
+    })
+    .join('\n');
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <h2 style="margin-top:0;">${escapeHtml(subject)}</h2>
+  <ul style="padding-left:20px;">
+${items}
+  </ul>
+  ${more > 0 ? `<p>...and ${more} more.</p>` : ''}
+  <p style="margin-top:30px; padding-top:20px; border-top:1px solid #e0e0e0; color:#666; font-size:13px;">
+    You receive this because you saved the search "${escapeHtml(label)}".
+    <a href="${escapeHtml(opts.unsubscribeUrl)}">Unsubscribe</a>
+  </p>
+</body>
+</html>
+`;
+
+  return { subject, html, text };
+}
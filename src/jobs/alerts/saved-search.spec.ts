@@ -0,0 +1,67 @@
+import { isDigestDue, parseSavedSearchParams } from './saved-search';
+import { renderDigest } from './digest';
+
+describe('parseSavedSearchParams', () => {
+  it('should keep the given filters and resolve near to coordinates', () => {
+    const params = parseSavedSearchParams({
+      q: 'nurse',
+      near: 'Toronto',
+      radiusKm: 25,
+      workplace: 'remote,hybrid',
+    });
+    expect(params.query).toBe('nurse');
+    expect(params.near?.latitude).toBeCloseTo(43.65, 1);
+    expect(params.radiusKm).toBe(25);
+    expect(params.workplace).toEqual(['remote', 'hybrid']);
+    expect(Object.keys(params)).not.toContain('location');
+  });
+
+  it('should reject unknown or invalid filters', () => {
+    expect(() => parseSavedSearchParams({ title: 'nurse' })).toThrow(
+      /unknown search parameter/,
+    );
+    expect(() => parseSavedSearchParams({ seniority: ['guru'] })).toThrow(
+      /seniority must be one of/,
+    );
+    expect(() => parseSavedSearchParams({ radiusKm: 10 })).toThrow(
+      /requires near/,
+    );
+    expect(() => parseSavedSearchParams({})).toThrow(/at least one/);
+  });
+});
+
+describe('isDigestDue', () => {
+  const now = new Date('2026-03-02T09:00:00Z');
+
+  it('should respect the frequency since the last digest', () => {
+    const yesterday = new Date('2026-03-01T09:02:00Z');
+    expect(isDigestDue('instant', now, now)).toBe(true);
+    expect(isDigestDue('daily', null, now)).toBe(true);
+    expect(isDigestDue('daily', yesterday, now)).toBe(true);
+    expect(isDigestDue('weekly', yesterday, now)).toBe(false);
+  });
+});
+
+describe('renderDigest', () => {
+  it('should escape posting text and include the unsubscribe link', () => {
+    const email = renderDigest({
+      searchName: null,
+      params: { query: 'nurse' },
+      postings: [
+        {
+          job_posting_id: 'p1',
+          job_title: 'Nurse <RN>',
+          company_name: 'Acme',
+          salary: { min: 40, max: 45, currency: 'CAD', period: 'hour' },
+        },
+      ],
+      total: 3,
+      unsubscribeUrl: 'https://example.com/unsubscribe/abc',
+    });
+    expect(email.subject).toBe('3 new jobs for "nurse"');
+    expect(email.html).toContain('Nurse &lt;RN&gt;');
+    expect(email.text).toContain('40–45 CAD / hour');
+    expect(email.text).toContain('...and 2 more.');
+    expect(email.html).toContain('https://example.com/unsubscribe/abc');
+  });
+});
@@ -0,0 +1,183 @@
+import type { JobSearchParams } from '../jobs.service';
+import { findRegion, resolveCountry } from '../enrichment/location';
+import { SENIORITY_LEVELS, SeniorityLevel } from '../enrichment/seniority';
+import { WORKPLACE_TYPES, WorkplaceType } from '../enrichment/workplace';
+import { scoreBucketCondition } from '../search/facets';
+import { MAX_RADIUS_KM, resolveNear } from '../search/geo';
+
+/**
+ * Saved searches: a stored set of /jobs/search filters that is re-run after
+ * each import (and on a timer), emailing a digest of postings that are new since
+ * the last check.
+ */
+export type AlertFrequency = 'instant' | 'daily' | 'weekly';
+
+export const ALERT_FREQUENCIES: AlertFrequency[] = [
+  'instant',
+  'daily',
+  'weekly',
+];
+
+// Minimum time between two digests
+export const FREQUENCY_INTERVAL_MS: Record<AlertFrequency, number> = {
+  instant: 0,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Postings listed in one digest email
+export const DIGEST_RESULT_LIMIT = 20;
+
+// Stored form: the filters of JobSearchParams (near already resolved to coordinates)
+export type SavedSearchParams = JobSearchParams;
+
+export const SAVED_SEARCH_PARAM_NAMES = [
+  'query',
+  'location',
+  'isEmailAvailable',
+  'jobFunction',
+  'scoreBucket',
+  'region',
+  'country',
+  'near',
+  'radiusKm',
+  'workplace',
+  'seniority',
+  'minSalary',
+  'maxSalary',
+] as const;
+
+function optionalString(input: Record<string, unknown>, key: string) {
+  const value = input[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') throw new Error(`${key} must be a string`);
+  return value.trim() || undefined;
+}
+
+function optionalNumber(input: Record<string, unknown>, key: string) {
+  const value = input[key];
+  if (value === undefined || value === null || value === '') return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 0) {
+    throw new Error(`${key} must be a non-negative number`);
+  }
+  return n;
+}
+
+function optionalList<T extends string>(
+  input: Record<string, unknown>,
+  key: string,
+  allowed: readonly T[],
+): T[] | undefined {
+  const value = input[key];
+  if (value === undefined || value === null) return undefined;
+  const list = (Array.isArray(value) ? value : String(value).split(','))
+    .map((v) => String(v).trim().toLowerCase())
+    .filter(Boolean);
+  const invalid = list.find((v) => !allowed.includes(v as T));
+  if (invalid) {
+    throw new Error(`${key} must be one of ${allowed.join(', ')}`);
+  }
+  return list.length > 0 ? (list as T[]) : undefined;
+}
+
+/**
+ * Validate saved search filters (same names and values as /jobs/search).
+ * Throws an Error describing the first problem.
+ */
+export function parseSavedSearchParams(input: unknown): SavedSearchParams {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('params must be an object');
+  }
+  const raw = input as Record<string, unknown>;
+  const unknownKey = Object.keys(raw).find(
+    (k) =>
+      !(SAVED_SEARCH_PARAM_NAMES as readonly string[]).includes(k) && k !== 'q',
+  );
+  if (unknownKey) throw new Error(`unknown search parameter "${unknownKey}"`);
+
+  const params: SavedSearchParams = {
+    query: optionalString(raw, 'query') ?? optionalString(raw, 'q'),
+    location: optionalString(raw, 'location'),
+    jobFunction: optionalString(raw, 'jobFunction'),
+    scoreBucket: optionalString(raw, 'scoreBucket'),
+    region: optionalString(raw, 'region'),
+    country: optionalString(raw, 'country'),
+    radiusKm: optionalNumber(raw, 'radiusKm'),
+    minSalary: optionalNumber(raw, 'minSalary'),
+    maxSalary: optionalNumber(raw, 'maxSalary'),
+    workplace: optionalList<WorkplaceType>(raw, 'workplace', WORKPLACE_TYPES),
+    seniority: optionalList<SeniorityLevel>(raw, 'seniority', SENIORITY_LEVELS),
+  };
+
+  if (raw.isEmailAvailable !== undefined && raw.isEmailAvailable !== null) {
+    if (typeof raw.isEmailAvailable !== 'boolean') {
+      throw new Error('isEmailAvailable must be a boolean');
+    }
+    params.isEmailAvailable = raw.isEmailAvailable;
+  }
+
+  if (params.scoreBucket && !scoreBucketCondition(params.scoreBucket)) {
+    throw new Error(`invalid scoreBucket "${params.scoreBucket}"`);
+  }
+  if (params.country && !resolveCountry(params.country)) {
+    throw new Error(`unknown country "${params.country}"`);
+  }
+  if (params.region && !findRegion(params.region)) {
+    throw new Error(`unknown region "${params.region}"`);
+  }
+  if (
+    params.minSalary !== undefined &&
+    params.maxSalary !== undefined &&
+    params.minSalary > params.maxSalary
+  ) {
+    throw new Error('minSalary must not exceed maxSalary');
+  }
+
+  // near: "lat,lon", a known city, or already resolved coordinates
+  if (raw.near !== undefined && raw.near !== null) {
+    const near =
+      typeof raw.near === 'string'
+        ? resolveNear(raw.near)
+        : typeof raw.near === 'object' &&
+            Number.isFinite((raw.near as any).latitude) &&
+            Number.isFinite((raw.near as any).longitude)
+          ? {
+              latitude: Number((raw.near as any).latitude),
+              longitude: Number((raw.near as any).longitude),
+            }
+          : null;
+    if (!near) throw new Error('near must be "lat,lon" or a known city');
+    params.near = near;
+  }
+  if (params.radiusKm !== undefined) {
+    if (!params.near) throw new Error('radiusKm requires near');
+    params.radiusKm = Math.min(Math.max(params.radiusKm, 1), MAX_RADIUS_KM);
+  }
+
+  // Drop unset keys so the stored JSON stays readable
+  for (const key of Object.keys(params) as (keyof SavedSearchParams)[]) {
+    if (params[key] === undefined) delete params[key];
+  }
+  if (Object.keys(params).length === 0) {
+    throw new Error('at least one search filter is required');
+  }
+  return params;
+}
+
+/**
+ * Whether a search with this frequency should get a digest now
+ */
+export function isDigestDue(
+  frequency: AlertFrequency,
+  lastSentAt: Date | null | undefined,
+  now: Date,
+): boolean {
+  if (!lastSentAt) return true;
+  // Small slack so a daily digest sent by the 09:00 tick is due again at the next 09:00 tick
+  const slackMs = 5 * 60 * 1000;
+  return (
+    now.getTime() - lastSentAt.getTime() >=
+    FREQUENCY_INTERVAL_MS[frequency] - slackMs
+  );
+}
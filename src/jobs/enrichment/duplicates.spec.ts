@@ -0,0 +1,45 @@
+import { duplicateClusterId, summaryFingerprint } from './duplicates';
+
+const SUMMARY =
+  'We are looking for a registered nurse to join our surgical unit. You will assess patients, administer medication, coordinate care with physicians and educate families. Apply at jobs@example.com.';
+
+describe('duplicateClusterId', () => {
+  it('should cluster reposts and multi-location copies of a job', () => {
+    const original = duplicateClusterId({
+      job_title: 'Registered Nurse - Surgery',
+      company_name: 'Acme Health',
+      job_location: 'Toronto, ON',
+      job_summary: SUMMARY,
+    });
+    const repost = duplicateClusterId({
+      job_title: 'registered nurse (surgery)',
+      company_name: 'ACME Health',
+      job_location: 'Ottawa, ON',
+      job_summary: SUMMARY.replace('jobs@example.com', 'hr@example.com'),
+    });
+    expect(original).toMatch(/^[0-9a-f]{40}$/);
+    expect(repost).toBe(original);
+  });
+
+  it('should keep different companies and short summaries in other places apart', () => {
+    const base = { job_title: 'Cashier', job_summary: 'Apply now' };
+    expect(
+      duplicateClusterId({ ...base, job_location: 'Toronto, ON' }),
+    ).not.toBe(duplicateClusterId({ ...base, job_location: 'Ottawa, ON' }));
+    expect(
+      duplicateClusterId({
+        job_title: 'Nurse',
+        company: 'A',
+        job_summary: SUMMARY,
+      }),
+    ).not.toBe(
+      duplicateClusterId({
+        job_title: 'Nurse',
+        company: 'B',
+        job_summary: SUMMARY,
+      }),
+    );
+    expect(duplicateClusterId({ job_summary: SUMMARY })).toBeNull();
+    expect(summaryFingerprint('Apply now')).toBeNull();
+  });
+});
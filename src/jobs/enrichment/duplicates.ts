@@ -0,0 +1,62 @@
+import { createHash } from 'crypto';
+
+/**
+ * Near-duplicate clustering. Reposts and multi-location copies of a job get
+ * different job_posting_ids but the same title, company and description, so
+ * they share a cluster id derived from those fields at import time.
+ */
+
+// Summaries shorter than this are too generic to identify a job ("Apply now"),
+// so the location takes the fingerprint's place in the cluster key
+export const MIN_FINGERPRINT_WORDS = 20;
+
+/**
+ * Lowercase words only: punctuation, URLs, emails and numbers (dates,
+ * reference codes, pay tweaks) do not make a posting different
+ */
+export function normalizeForClustering(
+  text: string | null | undefined,
+): string {
+  return (text ?? '')
+    .toLowerCase()
+    .replace(/https?:\/\/\S+|\S+@\S+/g, ' ')
+    .split(/[^\p{L}]+/u)
+    .filter(Boolean)
+    .join(' ');
+}
+
+function hash(value: string): string {
+  return createHash('sha1').update(value).digest('hex');
+}
+
+/**
+ * Hash of the normalized summary, or null when it is too short to tell jobs apart
+ */
+export function summaryFingerprint(
+  summary: string | null | undefined,
+): string | null {
+  const normalized = normalizeForClustering(summary);
+  if (normalized.split(' ').length < MIN_FINGERPRINT_WORDS) return null;
+  return hash(normalized).slice(0, 16);
+}
+
+export function companyOf(data: Record<string, any>): string {
+  return String(data.company_name ?? data.company ?? data.employer_name ?? '');
+}
+
+/**
+ * Cluster id (sha1 hex) shared by postings with the same normalized title,
+ * company and summary fingerprint, so one job posted in several cities still
+ * clusters. Without a usable summary the location is used instead.
+ * Null when the posting has no title.
+ */
+export function duplicateClusterId(data: Record<string, any>): string | null {
+  const title = normalizeForClustering(data.job_title);
+  if (!title) return null;
+  const fingerprint =
+    summaryFingerprint(data.job_summary) ??
+    `location:${normalizeForClustering(data.job_location)}`;
+  return hash(
+    [title, normalizeForClustering(companyOf(data)), fingerprint].join('|'),
+  );
+}
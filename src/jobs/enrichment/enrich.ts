@@ -0,0 +1,69 @@
+import { JobPosting } from '../../entities/job-posting.entity';
+import { parseLocation } from './location';
+import { classifyWorkplace } from './workplace';
+import { currencyForCountry, extractSalary } from './salary';
+import { detectSeniority } from './seniority';
+import { duplicateClusterId } from './duplicates';
+
+/**
+ * Bump whenever a parser changes or a new derived column is added, so the
+ * enrichment backfill picks up rows processed by an older version
+ */
+export const ENRICHMENT_VERSION = 4;
+
+export type EnrichedColumns = Pick<
+  JobPosting,
+  | 'location_city'
+  | 'location_region'
+  | 'location_country'
+  | 'latitude'
+  | 'longitude'
+  | 'workplace_type'
+  | 'workplace_confidence'
+  | 'salary_min'
+  | 'salary_max'
+  | 'salary_currency'
+  | 'salary_period'
+  | 'salary_annual_min'
+  | 'salary_annual_max'
+  | 'seniority'
+  | 'cluster_id'
+  | 'enrichment_version'
+>;
+
+/**
+ * Typed columns derived from a posting's raw data (import and backfill)
+ */
+export function enrichPosting(data: Record<string, any>): EnrichedColumns {
+  const location = parseLocation(data.job_location);
+  const workplace = classifyWorkplace({
+    title: data.job_title,
+    location: data.job_location,
+    summary: data.job_summary,
+  });
+  const salary = extractSalary(
+    data.job_summary,
+    currencyForCountry(location?.country),
+  );
+  return {
+    location_city: location?.city ?? null,
+    location_region: location?.region ?? null,
+    location_country: location?.country ?? null,
+    latitude: location?.latitude ?? null,
+    longitude: location?.longitude ?? null,
+    workplace_type: workplace.type,
+    workplace_confidence: workplace.confidence,
+    salary_min: salary?.min ?? null,
+    salary_max: salary?.max ?? null,
+    salary_currency: salary?.currency ?? null,
+    salary_period: salary?.period ?? null,
+    salary_annual_min: salary?.annualMin ?? null,
+    salary_annual_max: salary?.annualMax ?? null,
+    seniority: detectSeniority({
+      title: data.job_title,
+      summary: data.job_summary,
+    }),
+    cluster_id: duplicateClusterId(data),
+    enrichment_version: ENRICHMENT_VERSION,
+  };
+}
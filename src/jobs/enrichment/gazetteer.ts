@@ -0,0 +1,700 @@
+/**
+ * Bundled offline gazetteer used to parse job_location at import time.
+ * Covers Canadian provinces, US states and the metros postings come from;
+ * coordinates are city centres (WGS84, 4 decimals).
+ */
+export interface GazetteerCountry {
+  code: string;
+  name: string;
+  aliases: string[];
+}
+
+export interface GazetteerRegion {
+  code: string;
+  name: string;
+  country: string;
+  aliases?: string[];
+}
+
+export interface GazetteerCity {
+  name: string;
+  region: string | null;
+  country: string;
+  latitude: number;
+  longitude: number;
+  // Alternate spellings, districts and metro names ("GTA") resolving to the city
+  aliases?: string[];
+}
+
+export const COUNTRIES: GazetteerCountry[] = [
+  { code: 'CA', name: 'Canada', aliases: ['can'] },
+  {
+    code: 'US',
+    name: 'United States',
+    aliases: ['usa', 'us', 'u.s.', 'u.s.a.', 'united states of america'],
+  },
+  {
+    code: 'GB',
+    name: 'United Kingdom',
+    aliases: ['uk', 'u.k.', 'england', 'great britain'],
+  },
+  {
+    code: 'KR',
+    name: 'South Korea',
+    aliases: ['korea', 'republic of korea', '대한민국', '한국'],
+  },
+];
+
+export const REGIONS: GazetteerRegion[] = [
+  // Canada
+  { code: 'AB', name: 'Alberta', country: 'CA', aliases: ['alta'] },
+  { code: 'BC', name: 'British Columbia', country: 'CA', aliases: ['b.c.'] },
+  { code: 'MB', name: 'Manitoba', country: 'CA', aliases: ['man'] },
+  { code: 'NB', name: 'New Brunswick', country: 'CA' },
+  {
+    code: 'NL',
+    name: 'Newfoundland and Labrador',
+    country: 'CA',
+    aliases: ['newfoundland', 'nfld'],
+  },
+  { code: 'NS', name: 'Nova Scotia', country: 'CA' },
+  { code: 'NT', name: 'Northwest Territories', country: 'CA' },
+  { code: 'NU', name: 'Nunavut', country: 'CA' },
+  { code: 'ON', name: 'Ontario', country: 'CA', aliases: ['ont'] },
+  {
+    code: 'PE',
+    name: 'Prince Edward Island',
+    country: 'CA',
+    aliases: ['pei', 'p.e.i.'],
+  },
+  { code: 'QC', name: 'Quebec', country: 'CA', aliases: ['québec', 'pq'] },
+  { code: 'SK', name: 'Saskatchewan', country: 'CA', aliases: ['sask'] },
+  { code: 'YT', name: 'Yukon', country: 'CA' },
+  // United States
+  { code: 'AL', name: 'Alabama', country: 'US' },
+  { code: 'AK', name: 'Alaska', country: 'US' },
+  { code: 'AZ', name: 'Arizona', country: 'US' },
+  { code: 'AR', name: 'Arkansas', country: 'US' },
+  { code: 'CA', name: 'California', country: 'US', aliases: ['calif'] },
+  { code: 'CO', name: 'Colorado', country: 'US' },
+  { code: 'CT', name: 'Connecticut', country: 'US' },
+  { code: 'DE', name: 'Delaware', country: 'US' },
+  {
+    code: 'DC',
+    name: 'District of Columbia',
+    country: 'US',
+    aliases: ['d.c.'],
+  },
+  { code: 'FL', name: 'Florida', country: 'US' },
+  { code: 'GA', name: 'Georgia', country: 'US' },
+  { code: 'HI', name: 'Hawaii', country: 'US' },
+  { code: 'ID', name: 'Idaho', country: 'US' },
+  { code: 'IL', name: 'Illinois', country: 'US' },
+  { code: 'IN', name: 'Indiana', country: 'US' },
+  { code: 'IA', name: 'Iowa', country: 'US' },
+  { code: 'KS', name: 'Kansas', country: 'US' },
+  { code: 'KY', name: 'Kentucky', country: 'US' },
+  { code: 'LA', name: 'Louisiana', country: 'US' },
+  { code: 'ME', name: 'Maine', country: 'US' },
+  { code: 'MD', name: 'Maryland', country: 'US' },
+  { code: 'MA', name: 'Massachusetts', country: 'US' },
+  { code: 'MI', name: 'Michigan', country: 'US' },
+  { code: 'MN', name: 'Minnesota', country: 'US' },
+  { code: 'MS', name: 'Mississippi', country: 'US' },
+  { code: 'MO', name: 'Missouri', country: 'US' },
+  { code: 'MT', name: 'Montana', country: 'US' },
+  { code: 'NE', name: 'Nebraska', country: 'US' },
+  { code: 'NV', name: 'Nevada', country: 'US' },
+  { code: 'NH', name: 'New Hampshire', country: 'US' },
+  { code: 'NJ', name: 'New Jersey', country: 'US' },
+  { code: 'NM', name: 'New Mexico', country: 'US' },
+  {
+    code: 'NY',
+    name: 'New York State',
+    country: 'US',
+    aliases: ['new york'],
+  },
+  { code: 'NC', name: 'North Carolina', country: 'US' },
+  { code: 'ND', name: 'North Dakota', country: 'US' },
+  { code: 'OH', name: 'Ohio', country: 'US' },
+  { code: 'OK', name: 'Oklahoma', country: 'US' },
+  { code: 'OR', name: 'Oregon', country: 'US' },
+  { code: 'PA', name: 'Pennsylvania', country: 'US' },
+  { code: 'RI', name: 'Rhode Island', country: 'US' },
+  { code: 'SC', name: 'South Carolina', country: 'US' },
+  { code: 'SD', name: 'South Dakota', country: 'US' },
+  { code: 'TN', name: 'Tennessee', country: 'US' },
+  { code: 'TX', name: 'Texas', country: 'US' },
+  { code: 'UT', name: 'Utah', country: 'US' },
+  { code: 'VT', name: 'Vermont', country: 'US' },
+  { code: 'VA', name: 'Virginia', country: 'US' },
+  {
+    code: 'WA',
+    name: 'Washington State',
+    country: 'US',
+    aliases: ['washington'],
+  },
+  { code: 'WV', name: 'West Virginia', country: 'US' },
+  { code: 'WI', name: 'Wisconsin', country: 'US' },
+  { code: 'WY', name: 'Wyoming', country: 'US' },
+];
+
+// Ambiguous names resolve to the first entry unless a region or country says otherwise
+export const CITIES: GazetteerCity[] = [
+  // Ontario
+  {
+    name: 'Toronto',
+    region: 'ON',
+    country: 'CA',
+    latitude: 43.6532,
+    longitude: -79.3832,
+    aliases: [
+      'gta',
+      'greater toronto area',
+      'toronto area',
+      'downtown toronto',
+      'north york',
+      'scarborough',
+      'etobicoke',
+      'east york',
+    ],
+  },
+  {
+    name: 'Mississauga',
+    region: 'ON',
+    country: 'CA',
+    latitude: 43.589,
+    longitude: -79.6441,
+  },
+  {
+    name: 'Brampton',
+    region: 'ON',
+    country: 'CA',
+    latitude: 43.7315,
+    longitude: -79.7624,
+  },
+  {
+    name: 'Markham',
+    region: 'ON',
+    country: 'CA',
+    latitude: 43.8561,
+    longitude: -79.337,
+  },
+  {
+    name: 'Vaughan',
+    region: 'ON',
+    country: 'CA',
+    latitude: 43.8361,
+    longitude: -79.4983,
+    aliases: ['woodbridge', 'concord', 'maple'],
+  },
+  {
+    name: 'Richmond Hill',
+    region: 'ON',
+    country: 'CA',
+    latitude: 43.8828,
+    longitude: -79.4403,
+  },
+  {
+    name: 'Oakville',
+    region: 'ON',
+    country: 'CA',
+    latitude: 43.4675,
+    longitude: -79.6877,
+  },
+  {
+    name: 'Burlington',
+    region: 'ON',
+    country: 'CA',
+    latitude: 43.3255,
+    longitude: -79.799,
+  },
+  {
+    name: 'Hamilton',
+    region: 'ON',
+    country: 'CA',
+    latitude: 43.2557,
+    longitude: -79.8711,
+  },
+  {
+    name: 'Oshawa',
+    region: 'ON',
+    country: 'CA',
+    latitude: 43.8971,
+    longitude: -78.8658,
+  },
+  {
+    name: 'Ottawa',
+    region: 'ON',
+    country: 'CA',
+    latitude: 45.4215,
+    longitude: -75.6972,
+    aliases: ['kanata', 'nepean', 'orleans'],
+  },
+  {
+    name: 'Kitchener',
+    region: 'ON',
+    country: 'CA',
+    latitude: 43.4516,
+    longitude: -80.4925,
+  },
+  {
+    name: 'Waterloo',
+    region: 'ON',
+    country: 'CA',
+    latitude: 43.4643,
+    longitude: -80.5204,
+  },
+  {
+    name: 'Cambridge',
+    region: 'ON',
+    country: 'CA',
+    latitude: 43.3616,
+    longitude: -80.3144,
+  },
+  {
+    name: 'Guelph',
+    region: 'ON',
+    country: 'CA',
+    latitude: 43.5448,
+    longitude: -80.2482,
+  },
+  {
+    name: 'London',
+    region: 'ON',
+    country: 'CA',
+    latitude: 42.9849,
+    longitude: -81.2453,
+  },
+  {
+    name: 'Windsor',
+    region: 'ON',
+    country: 'CA',
+    latitude: 42.3149,
+    longitude: -83.0364,
+  },
+  {
+    name: 'Kingston',
+    region: 'ON',
+    country: 'CA',
+    latitude: 44.2312,
+    longitude: -76.486,
+  },
+  {
+    name: 'Barrie',
+    region: 'ON',
+    country: 'CA',
+    latitude: 44.3894,
+    longitude: -79.6903,
+  },
+  {
+    name: 'Sudbury',
+    region: 'ON',
+    country: 'CA',
+    latitude: 46.4917,
+    longitude: -80.993,
+    aliases: ['greater sudbury'],
+  },
+  {
+    name: 'Thunder Bay',
+    region: 'ON',
+    country: 'CA',
+    latitude: 48.3809,
+    longitude: -89.2477,
+  },
+  {
+    name: 'St. Catharines',
+    region: 'ON',
+    country: 'CA',
+    latitude: 43.1594,
+    longitude: -79.2469,
+    aliases: ['st catharines', 'saint catharines'],
+  },
+  {
+    name: 'Niagara Falls',
+    region: 'ON',
+    country: 'CA',
+    latitude: 43.0896,
+    longitude: -79.0849,
+  },
+  {
+    name: 'Peterborough',
+    region: 'ON',
+    country: 'CA',
+    latitude: 44.3091,
+    longitude: -78.3197,
+  },
+  // Quebec
+  {
+    name: 'Montreal',
+    region: 'QC',
+    country: 'CA',
+    latitude: 45.5017,
+    longitude: -73.5673,
+    aliases: ['montréal', 'greater montreal'],
+  },
+  {
+    name: 'Quebec City',
+    region: 'QC',
+    country: 'CA',
+    latitude: 46.8139,
+    longitude: -71.208,
+    aliases: ['québec city', 'ville de québec'],
+  },
+  {
+    name: 'Laval',
+    region: 'QC',
+    country: 'CA',
+    latitude: 45.6066,
+    longitude: -73.7124,
+  },
+  {
+    name: 'Gatineau',
+    region: 'QC',
+    country: 'CA',
+    latitude: 45.4765,
+    longitude: -75.7013,
+  },
+  {
+    name: 'Sherbrooke',
+    region: 'QC',
+    country: 'CA',
+    latitude: 45.4042,
+    longitude: -71.8929,
+  },
+  // British Columbia
+  {
+    name: 'Vancouver',
+    region: 'BC',
+    country: 'CA',
+    latitude: 49.2827,
+    longitude: -123.1207,
+    aliases: ['greater vancouver', 'metro vancouver', 'lower mainland'],
+  },
+  {
+    name: 'Surrey',
+    region: 'BC',
+    country: 'CA',
+    latitude: 49.1913,
+    longitude: -122.849,
+  },
+  {
+    name: 'Burnaby',
+    region: 'BC',
+    country: 'CA',
+    latitude: 49.2488,
+    longitude: -122.9805,
+  },
+  {
+    name: 'Richmond',
+    region: 'BC',
+    country: 'CA',
+    latitude: 49.1666,
+    longitude: -123.1336,
+  },
+  {
+    name: 'Victoria',
+    region: 'BC',
+    country: 'CA',
+    latitude: 48.4284,
+    longitude: -123.3656,
+  },
+  {
+    name: 'Kelowna',
+    region: 'BC',
+    country: 'CA',
+    latitude: 49.888,
+    longitude: -119.496,
+  },
+  {
+    name: 'Abbotsford',
+    region: 'BC',
+    country: 'CA',
+    latitude: 49.0504,
+    longitude: -122.3045,
+  },
+  // Prairies
+  {
+    name: 'Calgary',
+    region: 'AB',
+    country: 'CA',
+    latitude: 51.0447,
+    longitude: -114.0719,
+  },
+  {
+    name: 'Edmonton',
+    region: 'AB',
+    country: 'CA',
+    latitude: 53.5461,
+    longitude: -113.4938,
+  },
+  {
+    name: 'Red Deer',
+    region: 'AB',
+    country: 'CA',
+    latitude: 52.2681,
+    longitude: -113.8112,
+  },
+  {
+    name: 'Winnipeg',
+    region: 'MB',
+    country: 'CA',
+    latitude: 49.8951,
+    longitude: -97.1384,
+  },
+  {
+    name: 'Regina',
+    region: 'SK',
+    country: 'CA',
+    latitude: 50.4452,
+    longitude: -104.6189,
+  },
+  {
+    name: 'Saskatoon',
+    region: 'SK',
+    country: 'CA',
+    latitude: 52.1332,
+    longitude: -106.67,
+  },
+  // Atlantic and North
+  {
+    name: 'Halifax',
+    region: 'NS',
+    country: 'CA',
+    latitude: 44.6488,
+    longitude: -63.5752,
+    aliases: ['dartmouth'],
+  },
+  {
+    name: 'Moncton',
+    region: 'NB',
+    country: 'CA',
+    latitude: 46.0878,
+    longitude: -64.7782,
+  },
+  {
+    name: 'Fredericton',
+    region: 'NB',
+    country: 'CA',
+    latitude: 45.9636,
+    longitude: -66.6431,
+  },
+  {
+    name: 'Saint John',
+    region: 'NB',
+    country: 'CA',
+    latitude: 45.2733,
+    longitude: -66.0633,
+  },
+  {
+    name: "St. John's",
+    region: 'NL',
+    country: 'CA',
+    latitude: 47.5615,
+    longitude: -52.7126,
+    aliases: ["st john's", 'st johns'],
+  },
+  {
+    name: 'Charlottetown',
+    region: 'PE',
+    country: 'CA',
+    latitude: 46.2382,
+    longitude: -63.1311,
+  },
+  {
+    name: 'Whitehorse',
+    region: 'YT',
+    country: 'CA',
+    latitude: 60.7212,
+    longitude: -135.0568,
+  },
+  {
+    name: 'Yellowknife',
+    region: 'NT',
+    country: 'CA',
+    latitude: 62.454,
+    longitude: -114.3718,
+  },
+  // United States
+  {
+    name: 'New York',
+    region: 'NY',
+    country: 'US',
+    latitude: 40.7128,
+    longitude: -74.006,
+    aliases: ['nyc', 'new york city', 'manhattan', 'brooklyn'],
+  },
+  {
+    name: 'Buffalo',
+    region: 'NY',
+    country: 'US',
+    latitude: 42.8864,
+    longitude: -78.8784,
+  },
+  {
+    name: 'Los Angeles',
+    region: 'CA',
+    country: 'US',
+    latitude: 34.0522,
+    longitude: -118.2437,
+  },
+  {
+    name: 'San Francisco',
+    region: 'CA',
+    country: 'US',
+    latitude: 37.7749,
+    longitude: -122.4194,
+    aliases: ['sf', 'bay area', 'san francisco bay area'],
+  },
+  {
+    name: 'San Jose',
+    region: 'CA',
+    country: 'US',
+    latitude: 37.3382,
+    longitude: -121.8863,
+  },
+  {
+    name: 'San Diego',
+    region: 'CA',
+    country: 'US',
+    latitude: 32.7157,
+    longitude: -117.1611,
+  },
+  {
+    name: 'Seattle',
+    region: 'WA',
+    country: 'US',
+    latitude: 47.6062,
+    longitude: -122.3321,
+  },
+  {
+    name: 'Portland',
+    region: 'OR',
+    country: 'US',
+    latitude: 45.5152,
+    longitude: -122.6784,
+  },
+  {
+    name: 'Chicago',
+    region: 'IL',
+    country: 'US',
+    latitude: 41.8781,
+    longitude: -87.6298,
+  },
+  {
+    name: 'Boston',
+    region: 'MA',
+    country: 'US',
+    latitude: 42.3601,
+    longitude: -71.0589,
+  },
+  {
+    name: 'Cambridge',
+    region: 'MA',
+    country: 'US',
+    latitude: 42.3736,
+    longitude: -71.1097,
+  },
+  {
+    name: 'Washington',
+    region: 'DC',
+    country: 'US',
+    latitude: 38.9072,
+    longitude: -77.0369,
+    aliases: ['washington dc', 'washington d.c.'],
+  },
+  {
+    name: 'Philadelphia',
+    region: 'PA',
+    country: 'US',
+    latitude: 39.9526,
+    longitude: -75.1652,
+  },
+  {
+    name: 'Atlanta',
+    region: 'GA',
+    country: 'US',
+    latitude: 33.749,
+    longitude: -84.388,
+  },
+  {
+    name: 'Miami',
+    region: 'FL',
+    country: 'US',
+    latitude: 25.7617,
+    longitude: -80.1918,
+  },
+  {
+    name: 'Austin',
+    region: 'TX',
+    country: 'US',
+    latitude: 30.2672,
+    longitude: -97.7431,
+  },
+  {
+    name: 'Dallas',
+    region: 'TX',
+    country: 'US',
+    latitude: 32.7767,
+    longitude: -96.797,
+  },
+  {
+    name: 'Houston',
+    region: 'TX',
+    country: 'US',
+    latitude: 29.7604,
+    longitude: -95.3698,
+  },
+  {
+    name: 'Denver',
+    region: 'CO',
+    country: 'US',
+    latitude: 39.7392,
+    longitude: -104.9903,
+  },
+  {
+    name: 'Phoenix',
+    region: 'AZ',
+    country: 'US',
+    latitude: 33.4484,
+    longitude: -112.074,
+  },
+  {
+    name: 'Minneapolis',
+    region: 'MN',
+    country: 'US',
+    latitude: 44.9778,
+    longitude: -93.265,
+  },
+  {
+    name: 'Detroit',
+    region: 'MI',
+    country: 'US',
+    latitude: 42.3314,
+    longitude: -83.0458,
+  },
+  // Elsewhere
+  {
+    name: 'London',
+    region: null,
+    country: 'GB',
+    latitude: 51.5074,
+    longitude: -0.1278,
+  },
+  {
+    name: 'Seoul',
+    region: null,
+    country: 'KR',
+    latitude: 37.5665,
+    longitude: 126.978,
+    aliases: ['서울'],
+  },
+  {
+    name: 'Busan',
+    region: null,
+    country: 'KR',
+    latitude: 35.1796,
+    longitude: 129.0756,
+    aliases: ['부산'],
+  },
+];
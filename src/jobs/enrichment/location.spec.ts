@@ -0,0 +1,64 @@
+import { parseLocation } from './location';
+import { boundingBox, parseCoordinates } from '../search/geo';
+
+describe('parseLocation', () => {
+  it('should resolve city, province and coordinates', () => {
+    expect(parseLocation('Toronto, ON M5V 2T6')).toEqual({
+      city: 'Toronto',
+      region: 'ON',
+      country: 'CA',
+      latitude: 43.6532,
+      longitude: -79.3832,
+    });
+  });
+
+  it.each([
+    ['GTA', 'Toronto'],
+    ['Remote in Vancouver, BC', 'Vancouver'],
+    ['Montréal, QC (Hybrid)', 'Montreal'],
+    ['Toronto ON', 'Toronto'],
+    ['Toronto, Ontario, Canada', 'Toronto'],
+    ['New York, NY', 'New York'],
+  ])('should map %s to %s', (text, city) => {
+    expect(parseLocation(text)?.city).toBe(city);
+  });
+
+  it('should use the region to pick between same-named cities', () => {
+    expect(parseLocation('Cambridge, MA')?.country).toBe('US');
+    expect(parseLocation('London, ON')?.country).toBe('CA');
+    expect(parseLocation('San Francisco, CA')?.region).toBe('CA');
+  });
+
+  it('should keep unknown cities of a known province without coordinates', () => {
+    expect(parseLocation('Smallville, ON')).toEqual({
+      city: 'Smallville',
+      region: 'ON',
+      country: 'CA',
+      latitude: null,
+      longitude: null,
+    });
+    expect(parseLocation('Ontario, Canada')?.region).toBe('ON');
+  });
+
+  it('should return null when nothing is recognized', () => {
+    expect(parseLocation('Remote')).toBeNull();
+    expect(parseLocation('')).toBeNull();
+  });
+});
+
+describe('geo helpers', () => {
+  it('should parse "lat,lon" pairs', () => {
+    expect(parseCoordinates('43.65, -79.38')).toEqual({
+      latitude: 43.65,
+      longitude: -79.38,
+    });
+    expect(parseCoordinates('Toronto')).toBeNull();
+    expect(parseCoordinates('95,10')).toBeNull();
+  });
+
+  it('should widen the longitude span away from the equator', () => {
+    const box = boundingBox({ latitude: 60, longitude: 0 }, 100);
+    expect(box.maxLat - box.minLat).toBeCloseTo(1.8, 1);
+    expect(box.maxLon - box.minLon).toBeCloseTo(3.6, 1);
+  });
+});
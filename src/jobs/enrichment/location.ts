@@ -0,0 +1,210 @@
+import {
+  CITIES,
+  COUNTRIES,
+  GazetteerCity,
+  GazetteerCountry,
+  GazetteerRegion,
+  REGIONS,
+} from './gazetteer';
+
+/**
+ * Structured form of a free-text job_location ("Toronto, ON M5V 2T6", "GTA",
+ * "Remote in Vancouver, BC"), resolved against the bundled gazetteer
+ */
+export interface ParsedLocation {
+  city: string | null;
+  // Province/state code (ON, BC, NY)
+  region: string | null;
+  // ISO 3166-1 alpha-2
+  country: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+/**
+ * Lowercase, strip accents and dots so "Québec", "Quebec" and "St. John's" line up
+ */
+export function normalizePlace(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\./g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function indexBy<T>(items: T[], keys: (item: T) => string[]) {
+  const index = new Map<string, T[]>();
+  for (const item of items) {
+    for (const key of keys(item)) {
+      const k = normalizePlace(key);
+      index.set(k, [...(index.get(k) ?? []), item]);
+    }
+  }
+  return index;
+}
+
+const CITY_INDEX = indexBy<GazetteerCity>(CITIES, (c) => [
+  c.name,
+  ...(c.aliases ?? []),
+]);
+const REGION_INDEX = indexBy<GazetteerRegion>(REGIONS, (r) => [
+  r.code,
+  r.name,
+  ...(r.aliases ?? []),
+]);
+// Bare country codes are left out: "CA" after a city means California
+const COUNTRY_INDEX = indexBy<GazetteerCountry>(COUNTRIES, (c) => [
+  c.name,
+  ...c.aliases,
+]);
+
+// "Remote in Toronto, ON", "Hybrid remote in ...", "Temporarily remote in ..."
+const WORKPLACE_PREFIX =
+  /^(?:(?:temporarily|fully|hybrid)\s+)*(?:remote|hybrid|on-?site)\s+(?:in|from|-)\s+/i;
+// Canadian postal codes (full or FSA) and US ZIP codes
+const POSTAL_CODE = /\b[A-Z]\d[A-Z](?:\s?\d[A-Z]\d)?\b|\b\d{5}(?:-\d{4})?\b/gi;
+
+/**
+ * Drop workplace prefixes, parenthesized notes and postal codes, then split on separators
+ */
+export function splitLocation(text: string): string[] {
+  const cleaned = text
+    .replace(WORKPLACE_PREFIX, '')
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(POSTAL_CODE, ' ');
+  return cleaned
+    .split(/\s*(?:[,;|/•]|\s-\s)\s*/)
+    .map((p) => p.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+export function findRegion(
+  value: string,
+  country?: string | null,
+): GazetteerRegion | null {
+  const candidates = REGION_INDEX.get(normalizePlace(value)) ?? [];
+  return candidates.find((r) => !country || r.country === country) ?? null;
+}
+
+export function findCountry(value: string): GazetteerCountry | null {
+  return COUNTRY_INDEX.get(normalizePlace(value))?.[0] ?? null;
+}
+
+/**
+ * Country from an ISO code or a name, for search filters
+ */
+export function resolveCountry(value: string): GazetteerCountry | null {
+  const code = value.trim().toUpperCase();
+  return COUNTRIES.find((c) => c.code === code) ?? findCountry(value);
+}
+
+function findCity(
+  value: string,
+  region: GazetteerRegion | null,
+  country: GazetteerCountry | null,
+): GazetteerCity | null {
+  const candidates = CITY_INDEX.get(normalizePlace(value)) ?? [];
+  return (
+    candidates.find(
+      (c) =>
+        (!region ||
+          (c.region === region.code && c.country === region.country)) &&
+        (!country || c.country === country.code),
+    ) ?? null
+  );
+}
+
+function fromCity(city: GazetteerCity): ParsedLocation {
+  return {
+    city: city.name,
+    region: city.region,
+    country: city.country,
+    latitude: city.latitude,
+    longitude: city.longitude,
+  };
+}
+
+/**
+ * Parse a job_location string. Returns null when nothing is recognized.
+ * Unknown cities are kept as written when their province/state is recognized,
+ * but only gazetteer cities get coordinates.
+ */
+export function parseLocation(
+  text: string | null | undefined,
+): ParsedLocation | null {
+  const parts = splitLocation(text ?? '');
+  if (parts.length === 0) return null;
+
+  // "Toronto ON" without a comma
+  const trailingCode =
+    parts.length === 1 ? /^(.*\S)\s+([A-Z]{2})$/.exec(parts[0]) : null;
+  if (trailingCode && findRegion(trailingCode[2])) {
+    parts.splice(0, 1, trailingCode[1], trailingCode[2]);
+  }
+
+  // A lone part is most likely a city ("New York", "GTA"), then a region or country
+  if (parts.length === 1) {
+    const city = findCity(parts[0], null, null);
+    if (city) return fromCity(city);
+    const region = findRegion(parts[0]);
+    if (region) {
+      return {
+        city: null,
+        region: region.code,
+        country: region.country,
+        latitude: null,
+        longitude: null,
+      };
+    }
+    const country = findCountry(parts[0]);
+    return country
+      ? {
+          city: null,
+          region: null,
+          country: country.code,
+          latitude: null,
+          longitude: null,
+        }
+      : null;
+  }
+
+  // Peel country and region off the end: "Toronto, ON, Canada"
+  const rest = [...parts];
+  const country = findCountry(rest[rest.length - 1]);
+  if (country) rest.pop();
+  const region =
+    rest.length > 1 ? findRegion(rest[rest.length - 1], country?.code) : null;
+  if (region) rest.pop();
+
+  const city = rest.length > 0 ? findCity(rest[0], region, country) : null;
+  if (city) return fromCity(city);
+
+  // "Ontario, Canada"
+  if (!region && country && rest.length === 1) {
+    const onlyRegion = findRegion(rest[0], country.code);
+    if (onlyRegion) {
+      return {
+        city: null,
+        region: onlyRegion.code,
+        country: onlyRegion.country,
+        latitude: null,
+        longitude: null,
+      };
+    }
+  }
+
+  if (!region && !country) {
+    // "Toronto - Downtown", "Vancouver | Hybrid": the first part may still be a city
+    const leading = findCity(parts[0], null, null);
+    return leading ? fromCity(leading) : null;
+  }
+  return {
+    city: region && rest.length > 0 ? rest[0] : null,
+    region: region?.code ?? null,
+    country: region?.country ?? country?.code ?? null,
+    latitude: null,
+    longitude: null,
+  };
+}
@@ -0,0 +1,63 @@
+import { extractSalary } from './salary';
+
+describe('extractSalary', () => {
+  it('should normalize an hourly range', () => {
+    expect(extractSalary('Pay: $32–$38/hour', 'CAD')).toEqual({
+      min: 32,
+      max: 38,
+      currency: 'CAD',
+      period: 'hour',
+      annualMin: 66560,
+      annualMax: 79040,
+    });
+  });
+
+  it('should expand k amounts and read an explicit currency', () => {
+    expect(extractSalary('Compensation 80k-95k CAD annually')).toMatchObject({
+      min: 80000,
+      max: 95000,
+      currency: 'CAD',
+      period: 'year',
+    });
+  });
+
+  it('should check won amounts at won scale', () => {
+    expect(extractSalary('Salary ₩40,000,000 per year', 'KRW')).toEqual({
+      min: 40000000,
+      max: 40000000,
+      currency: 'KRW',
+      period: 'year',
+      annualMin: 40000000,
+      annualMax: 40000000,
+    });
+    expect(extractSalary('시급 ₩12,000 / hour')).toMatchObject({
+      currency: 'KRW',
+      annualMin: 24960000,
+    });
+  });
+
+  it('should read a "between X and Y" range', () => {
+    expect(
+      extractSalary('Pays between 50,000 and 60,000 per year'),
+    ).toMatchObject({ min: 50000, max: 60000, period: 'year' });
+  });
+
+  it.each([
+    ['Salary: $75,000 per year', 75000, 'year'],
+    ['$4,500 a month plus benefits', 54000, 'month'],
+    ['Starting at $21.50 an hour', 44720, 'hour'],
+    ['Base salary of US$120k', 120000, 'year'],
+  ])('should extract %s', (text, annualMin, period) => {
+    const salary = extractSalary(text);
+    expect(salary?.annualMin).toBe(annualMin);
+    expect(salary?.period).toBe(period);
+  });
+
+  it.each([
+    'Requires 5 years of experience and a 401k match',
+    'Call 416-555-0199 before 2024',
+    'We offer a $500 signing bonus',
+  ])('should not treat "%s" as pay', (text) => {
+    expect(extractSalary(text)).toBeNull();
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Pay extraction from job_summary text ("$32–$38/hour", "80k-95k CAD annually",
+ * "Salary: $75,000 per year"), normalized to a min/max, currency and annual amount.
+ */
+export type SalaryPeriod = 'hour' | 'day' | 'week' | 'month' | 'year';
+
+export interface ExtractedSalary {
+  min: number;
+  max: number;
+  currency: string;
+  period: SalaryPeriod;
+  annualMin: number;
+  annualMax: number;
+}
+
+// Full-time equivalents used to annualize
+export const ANNUAL_MULTIPLIERS: Record<SalaryPeriod, number> = {
+  hour: 2080,
+  day: 260,
+  week: 52,
+  month: 12,
+  year: 1,
+};
+
+// Plausible amounts per period; anything outside is not a salary ("401k", "5 years")
+// An hourly rate that is only guessed ("$250 bonus") gets a tighter cap
+const GUESSED_HOURLY_MAX = 150;
+const PLAUSIBLE: Record<SalaryPeriod, [number, number]> = {
+  hour: [7, 300],
+  day: [50, 5000],
+  week: [200, 20000],
+  month: [500, 100000],
+  year: [10000, 2000000],
+};
+
+// Rough units per US dollar for currencies far from dollar scale; PLAUSIBLE
+// ranges are multiplied by it
+const CURRENCY_SCALE: Record<string, number> = {
+  KRW: 1000,
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  c$: 'CAD',
+  ca$: 'CAD',
+  us$: 'USD',
+  '£': 'GBP',
+  '€': 'EUR',
+  '₩': 'KRW',
+};
+
+const PERIOD_PATTERNS: [RegExp, SalaryPeriod][] = [
+  [/^(?:\/|per |an |a |)\s*(?:hour|hr|h)\b|^hourly\b/, 'hour'],
+  [/^(?:\/|per |a )\s*day\b|^daily\b/, 'day'],
+  [/^(?:\/|per |a )\s*(?:week|wk)\b|^weekly\b/, 'week'],
+  [/^(?:\/|per |a )\s*(?:month|mo)\b|^monthly\b/, 'month'],
+  [
+    /^(?:\/|per |a |an )\s*(?:year|yr|annum)\b|^annual(?:ly)?\b|^yearly\b|^p\.?a\.?\b/,
+    'year',
+  ],
+];
+
+const CURRENCY = String.raw`(?:CAD|USD|GBP|EUR|KRW|C\$|CA\$|US\$|\$|£|€|₩)`;
+const NUMBER = String.raw`\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?`;
+const AMOUNT = String.raw`(${CURRENCY})?\s?(${NUMBER})\s?([kK](?![a-zA-Z]))?\s?(${CURRENCY})?`;
+// "between $50,000 and $60,000" is read like "$50,000 to $60,000"
+const BETWEEN_AND = /\b(between\s+\S+)\s+and\s+/gi;
+const RANGE = new RegExp(
+  String.raw`${AMOUNT}(?:\s*(?:-|–|—|to)\s*${AMOUNT})?`,
+  'g',
+);
+
+function currencyCode(token: string | undefined): string | null {
+  if (!token) return null;
+  const lower = token.toLowerCase();
+  if (CURRENCY_SYMBOLS[lower]) return CURRENCY_SYMBOLS[lower];
+  if (token === '$') return null;
+  return token.toUpperCase();
+}
+
+function toNumber(value: string, thousands: string | undefined): number {
+  const n = Number(value.replace(/,/g, ''));
+  return thousands ? n * 1000 : n;
+}
+
+function detectPeriod(after: string): SalaryPeriod | null {
+  const text = after.trimStart().toLowerCase();
+  for (const [pattern, period] of PERIOD_PATTERNS) {
+    if (pattern.test(text)) return period;
+  }
+  return null;
+}
+
+/**
+ * Extract the first plausible salary. "$" resolves to defaultCurrency
+ * (the posting country's currency). Returns null when no amount looks like pay.
+ */
+export function extractSalary(
+  text: string | null | undefined,
+  defaultCurrency = 'USD',
+): ExtractedSalary | null {
+  if (!text) return null;
+  text = text.replace(BETWEEN_AND, '$1 to ');
+
+  for (const match of text.matchAll(RANGE)) {
+    const [whole, cur1, num1, k1, cur2, cur3, num2, k2, cur4] = match;
+    const hasCurrency = Boolean(cur1 || cur2 || cur3 || cur4);
+    const after = text.slice(
+      (match.index ?? 0) + whole.length,
+      (match.index ?? 0) + whole.length + 20,
+    );
+    let period = detectPeriod(after);
+
+    // Bare numbers are only pay when marked as money or as a rate; "80k-95k"
+    // passes as a range, a lone "401k" does not
+    if (!hasCurrency && !period && !(num2 && (k1 || k2))) continue;
+
+    // "80-95k": a trailing k also applies to a small leading number
+    const min = toNumber(
+      num1,
+      k1 || (k2 && Number(num1.replace(/,/g, '')) < 1000 ? k2 : undefined),
+    );
+    const max = num2 ? toNumber(num2, k2 || k1) : min;
+    if (!Number.isFinite(min) || !Number.isFinite(max) || max < min) continue;
+
+    const currency =
+      currencyCode(cur1) ??
+      currencyCode(cur2) ??
+      currencyCode(cur3) ??
+      currencyCode(cur4) ??
+      defaultCurrency;
+    const scale = CURRENCY_SCALE[currency] ?? 1;
+
+    const guessed = period === null;
+    period ??= max >= PLAUSIBLE.year[0] * scale ? 'year' : 'hour';
+    const [low, high] = PLAUSIBLE[period];
+    const cap = guessed && period === 'hour' ? GUESSED_HOURLY_MAX : high;
+    if (min < low * scale || max > cap * scale) continue;
+
+    const multiplier = ANNUAL_MULTIPLIERS[period];
+    return {
+      min,
+      max,
+      currency,
+      period,
+      annualMin: Math.round(min * multiplier),
+      annualMax: Math.round(max * multiplier),
+    };
+  }
+  return null;
+}
+
+/**
+ * Local currency for "$" amounts, from the parsed posting country
+ */
+export function currencyForCountry(country: string | null | undefined): string {
+  switch (country) {
+    case 'CA':
+      return 'CAD';
+    case 'GB':
+      return 'GBP';
+    case 'KR':
+      return 'KRW';
+    default:
+      return 'USD';
+  }
+}
@@ -0,0 +1,36 @@
+import { detectSeniority } from './seniority';
+
+describe('detectSeniority', () => {
+  it.each([
+    ['Software Engineering Intern', 'intern'],
+    ['Junior Software Developer', 'entry'],
+    ['Software Engineer II', 'mid'],
+    ['Sr. Software Engineer', 'senior'],
+    ['Staff Software Engineer', 'lead'],
+    ['Senior Engineering Manager', 'manager'],
+    ['VP of Engineering', 'director'],
+  ])('should read %s as %s', (title, level) => {
+    expect(detectSeniority({ title })).toBe(level);
+  });
+
+  it('should not treat product or account managers as people managers', () => {
+    expect(detectSeniority({ title: 'Senior Product Manager' })).toBe('senior');
+    expect(detectSeniority({ title: 'Account Manager' })).toBeNull();
+  });
+
+  it('should fall back to the experience asked for in the summary', () => {
+    expect(
+      detectSeniority({
+        title: 'Software Engineer',
+        summary: 'You have 5+ years of professional experience with Go.',
+      }),
+    ).toBe('senior');
+    expect(
+      detectSeniority({
+        title: 'Data Analyst',
+        summary: 'Great role for recent graduates.',
+      }),
+    ).toBe('entry');
+    expect(detectSeniority({ title: 'Data Analyst' })).toBeNull();
+  });
+});
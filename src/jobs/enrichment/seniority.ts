@@ -0,0 +1,84 @@
+/**
+ * Seniority detection. The job_title decides when it names a level
+ * ("Senior", "Intern", "Director"); otherwise the years of experience asked for
+ * in job_summary are used. Postings with neither stay unknown (null).
+ */
+export type SeniorityLevel =
+  | 'intern'
+  | 'entry'
+  | 'mid'
+  | 'senior'
+  | 'lead'
+  | 'manager'
+  // Director and above: VP, head of, C-level
+  | 'director';
+
+export const SENIORITY_LEVELS: SeniorityLevel[] = [
+  'intern',
+  'entry',
+  'mid',
+  'senior',
+  'lead',
+  'manager',
+  'director',
+];
+
+// First match wins, so higher levels come first ("Senior Engineering Manager" is a manager)
+const TITLE_RULES: [RegExp, SeniorityLevel][] = [
+  [
+    /\b(?:director|vp|svp|evp|vice[- ]president|head of|chief|cto|ceo|cfo|coo|cio|ciso|president)\b/,
+    'director',
+  ],
+  [/\b(?:manager|mgr|supervisor|superintendent)\b/, 'manager'],
+  [
+    /\b(?:lead|principal|architect|staff (?:software |data |ml |machine learning )?(?:engineer|developer|scientist))\b/,
+    'lead',
+  ],
+  [/\b(?:intern|internship|co-?op|summer student|student)\b/, 'intern'],
+  [/\b(?:senior|sr|iii|iv|expert)\b/, 'senior'],
+  [
+    /\b(?:junior|jr|entry[- ]level|graduate|new grad|trainee|apprentice|i)\b/,
+    'entry',
+  ],
+  [/\b(?:intermediate|mid[- ]level|ii)\b/, 'mid'],
+];
+
+// "Manager" in these titles is the role, not a people-management level
+const INDIVIDUAL_CONTRIBUTOR_MANAGERS =
+  /\b(?:account|product|project|program|case|social media|community|customer success|property|office)\s+manager\b/;
+
+// "3+ years of experience", "minimum 5 years", "2-4 years"
+const YEARS_OF_EXPERIENCE =
+  /\b(\d{1,2})\s*(?:\+|-\s*\d{1,2}|to\s+\d{1,2})?\s*(?:years?|yrs?)\b(?:\s+of)?(?:\s+\w+){0,3}?\s+experience/;
+
+function levelFromYears(years: number): SeniorityLevel {
+  if (years <= 1) return 'entry';
+  if (years <= 4) return 'mid';
+  if (years <= 7) return 'senior';
+  return 'lead';
+}
+
+export function detectSeniority(input: {
+  title?: string | null;
+  summary?: string | null;
+}): SeniorityLevel | null {
+  const title = (input.title ?? '')
+    .toLowerCase()
+    .replace(/\./g, '')
+    .replace(INDIVIDUAL_CONTRIBUTOR_MANAGERS, ' ');
+  for (const [pattern, level] of TITLE_RULES) {
+    if (pattern.test(title)) return level;
+  }
+
+  const summary = (input.summary ?? '').toLowerCase();
+  if (/\b(?:internship|co-?op (?:term|placement|student))\b/.test(summary)) {
+    return 'intern';
+  }
+  if (/\b(?:entry[- ]level|new grads?|recent graduates?)\b/.test(summary)) {
+    return 'entry';
+  }
+  const years = YEARS_OF_EXPERIENCE.exec(summary);
+  if (years) return levelFromYears(Number(years[1]));
+
+  return null;
+}
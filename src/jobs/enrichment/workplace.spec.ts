@@ -0,0 +1,37 @@
+import { classifyWorkplace } from './workplace';
+
+describe('classifyWorkplace', () => {
+  it.each([
+    [{ location: 'Remote in Toronto, ON' }, 'remote'],
+    [{ title: 'Senior Developer (Remote)' }, 'remote'],
+    [{ location: 'Hybrid remote in Vancouver, BC' }, 'hybrid'],
+    [
+      {
+        summary:
+          'You will work 3 days a week in the office, the rest from home.',
+      },
+      'hybrid',
+    ],
+    [
+      { summary: 'This is not a remote position. Work is performed on-site.' },
+      'onsite',
+    ],
+  ])('should classify %j as %s', (input, type) => {
+    expect(classifyWorkplace(input).type).toBe(type);
+  });
+
+  it('should default to on-site with low confidence when nothing is stated', () => {
+    expect(
+      classifyWorkplace({ title: 'Cashier', location: 'Toronto, ON' }),
+    ).toEqual({ type: 'onsite', confidence: 0.3 });
+  });
+
+  it('should be more confident with stronger evidence', () => {
+    const weak = classifyWorkplace({ summary: 'Remote options available.' });
+    const strong = classifyWorkplace({
+      location: 'Remote',
+      summary: 'This is a fully remote role.',
+    });
+    expect(strong.confidence).toBeGreaterThan(weak.confidence);
+  });
+});
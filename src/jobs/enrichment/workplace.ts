@@ -0,0 +1,124 @@
+/**
+ * Remote / hybrid / on-site classification from job_title, job_location and job_summary.
+ * Each matching signal adds its weight (scaled by where it was found) to its class;
+ * the class with the most weight wins.
+ */
+export type WorkplaceType = 'remote' | 'hybrid' | 'onsite';
+
+export const WORKPLACE_TYPES: WorkplaceType[] = ['remote', 'hybrid', 'onsite'];
+
+export interface WorkplaceClassification {
+  type: WorkplaceType;
+  // 0..1, how strongly the text backs the type
+  confidence: number;
+}
+
+interface Signal {
+  type: WorkplaceType;
+  pattern: RegExp;
+  weight: number;
+  // Remove the matched text so later signals do not see it
+  consume?: boolean;
+}
+
+const SIGNALS: Signal[] = [
+  // Explicit denials first: "not a remote position" must not count as remote
+  {
+    type: 'onsite',
+    pattern:
+      /\b(?:not|no|isn't|is not)\s+(?:a\s+|an\s+)?(?:fully\s+)?(?:remote|work[- ]from[- ]home|wfh)\b/,
+    weight: 3,
+    consume: true,
+  },
+  { type: 'onsite', pattern: /\bon[- ]?site\b/, weight: 2 },
+  { type: 'onsite', pattern: /\bin[- ]person\b/, weight: 2 },
+  {
+    type: 'onsite',
+    pattern:
+      /\b(?:in|at) (?:the|our) (?:office|clinic|store|warehouse|plant|facility)\b/,
+    weight: 1,
+  },
+  {
+    type: 'onsite',
+    pattern: /\b(?:5|five) days (?:a|per) week (?:in|at) (?:the )?office\b/,
+    weight: 2,
+  },
+  { type: 'hybrid', pattern: /\bhybrid\b/, weight: 3 },
+  {
+    type: 'hybrid',
+    pattern:
+      /\b(?:[1-4]|one|two|three|four) days? (?:a|per) week (?:in|at) (?:the )?office\b/,
+    weight: 3,
+  },
+  {
+    type: 'hybrid',
+    pattern: /\b(?:partially|partly|part[- ]time) remote\b/,
+    weight: 3,
+  },
+  { type: 'hybrid', pattern: /\bflexible work(?:ing)? arrangement/, weight: 1 },
+  {
+    type: 'remote',
+    pattern: /\b(?:fully|100%|completely|permanently) remote\b/,
+    weight: 4,
+  },
+  { type: 'remote', pattern: /\bremote[- ]first\b/, weight: 3 },
+  {
+    type: 'remote',
+    pattern: /\b(?:work|working) (?:from|at) home\b|\bwfh\b/,
+    weight: 2,
+  },
+  { type: 'remote', pattern: /\bremote\b/, weight: 2 },
+  { type: 'remote', pattern: /\btelecommut/, weight: 2 },
+];
+
+// A remote/on-site word in the location or title says more than one in a long summary
+const FIELD_WEIGHTS = { location: 2, title: 1.5, summary: 1 };
+
+// Postings with no signal are almost always on-site, but we cannot be sure
+const DEFAULT_ONSITE_CONFIDENCE = 0.3;
+
+/**
+ * Classify a posting. Always returns a type; confidence reflects the evidence.
+ */
+export function classifyWorkplace(input: {
+  title?: string | null;
+  location?: string | null;
+  summary?: string | null;
+}): WorkplaceClassification {
+  const totals: Record<WorkplaceType, number> = {
+    remote: 0,
+    hybrid: 0,
+    onsite: 0,
+  };
+
+  for (const field of ['location', 'title', 'summary'] as const) {
+    let text = (input[field] ?? '').toLowerCase();
+    if (!text) continue;
+    for (const signal of SIGNALS) {
+      if (!signal.pattern.test(text)) continue;
+      totals[signal.type] += signal.weight * FIELD_WEIGHTS[field];
+      // Consume denials so "not remote" does not also count as "remote"
+      if (signal.consume) {
+        text = text.replace(new RegExp(signal.pattern.source, 'g'), ' ');
+      }
+    }
+  }
+
+  // "Hybrid remote in Toronto" also contains "remote": hybrid wins when it is stated
+  if (totals.hybrid > 0 && totals.remote > 0) {
+    totals.remote = Math.max(totals.remote - totals.hybrid, 0);
+  }
+
+  const sum = totals.remote + totals.hybrid + totals.onsite;
+  if (sum === 0) {
+    return { type: 'onsite', confidence: DEFAULT_ONSITE_CONFIDENCE };
+  }
+
+  const best = WORKPLACE_TYPES.reduce((a, b) =>
+    totals[b] > totals[a] ? b : a,
+  );
+  // Share of the evidence, damped when there is little of it
+  const strength = Math.min(totals[best] / 6, 1);
+  const confidence = (totals[best] / sum) * (0.5 + 0.5 * strength);
+  return { type: best, confidence: Math.round(confidence * 100) / 100 };
+}
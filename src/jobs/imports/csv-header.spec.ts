@@ -0,0 +1,37 @@
+import { encodingProblem, validateCsvHeader } from './csv-header';
+
+describe('validateCsvHeader', () => {
+  it('should return the header columns of a valid file', () => {
+    const sample = Buffer.from(
+      '\uFEFFjob_posting_id,job_title,"job_summary",job_location\r\n1,Nurse,"Care, ""daily""",Toronto\n',
+    );
+    expect(validateCsvHeader(sample, 'job_posting_id')).toEqual([
+      'job_posting_id',
+      'job_title',
+      'job_summary',
+      'job_location',
+    ]);
+  });
+
+  it('should name the missing columns', () => {
+    expect(() =>
+      validateCsvHeader(
+        Buffer.from('id,job_title\n1,Nurse\n'),
+        'job_posting_id',
+      ),
+    ).toThrow('missing required column(s): job_posting_id, job_summary');
+  });
+
+  it('should reject empty and non UTF-8 files', () => {
+    expect(() => validateCsvHeader(Buffer.alloc(0), 'id')).toThrow(/empty/);
+    expect(encodingProblem(Buffer.from('\uFEFFid', 'utf16le'))).toMatch(
+      /UTF-16/,
+    );
+    // "간호사" in EUC-KR
+    expect(
+      encodingProblem(Buffer.from([0xb0, 0xa3, 0xc8, 0xa3, 0xbb, 0xe7])),
+    ).toMatch(/not valid UTF-8/);
+    // A sample cut inside a multi-byte character is still UTF-8
+    expect(encodingProblem(Buffer.from('간호사').subarray(0, 8))).toBeNull();
+  });
+});
@@ -0,0 +1,121 @@
+import { resolve } from 'path';
+import { parse } from 'csv-parse/sync';
+
+/**
+ * Upfront checks for uploaded CSV imports, run on the first bytes of the file
+ * before the background import starts: encoding and the header row.
+ */
+
+// Columns every import needs besides the id column
+export const REQUIRED_IMPORT_COLUMNS = ['job_title', 'job_summary'];
+
+// Bytes read to check encoding and find the header row
+export const HEADER_SAMPLE_BYTES = 64 * 1024;
+
+// Upload size limit, overridable with IMPORT_MAX_UPLOAD_MB
+export const DEFAULT_MAX_UPLOAD_MB = 4096;
+
+// Read when the controller is loaded, so it comes from the process environment
+export function maxUploadBytes(): number {
+  const mb = Number(process.env.IMPORT_MAX_UPLOAD_MB ?? DEFAULT_MAX_UPLOAD_MB);
+  return (
+    (Number.isFinite(mb) && mb > 0 ? mb : DEFAULT_MAX_UPLOAD_MB) * 1024 * 1024
+  );
+}
+
+// Uploads are kept here until their import ends, so it can resume after a restart
+export function importStorageDir(): string {
+  return resolve(process.env.IMPORT_STORAGE_DIR || 'uploads/imports');
+}
+
+export const MAX_IMPORT_BATCH_SIZE = 1000;
+export const MAX_IMPORT_INTERVAL_MS = 60_000;
+
+const UTF8_BOM = Buffer.from([0xef, 0xbb, 0xbf]);
+
+/**
+ * Why the sample is not UTF-8 text, or null when it is
+ */
+export function encodingProblem(sample: Buffer): string | null {
+  if (
+    (sample[0] === 0xff && sample[1] === 0xfe) ||
+    (sample[0] === 0xfe && sample[1] === 0xff)
+  ) {
+    return 'file is UTF-16 encoded; save it as UTF-8';
+  }
+  if (sample.includes(0)) {
+    return 'file contains NUL bytes (binary file or UTF-16 without BOM)';
+  }
+  // The sample may end inside a multi-byte character, so allow up to 3 cut bytes
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+  for (let cut = 0; cut <= Math.min(3, sample.length); cut++) {
+    try {
+      decoder.decode(sample.subarray(0, sample.length - cut));
+      return null;
+    } catch {
+      // try a shorter sample
+    }
+  }
+  return 'file is not valid UTF-8 (e.g. exported as EUC-KR or Windows-1252)';
+}
+
+/**
+ * Column names of the header row in the sample. Throws an Error when the
+ * sample is not UTF-8 CSV or required columns are missing.
+ */
+export function validateCsvHeader(
+  sample: Buffer,
+  idColumn: string,
+  required: string[] = REQUIRED_IMPORT_COLUMNS,
+): string[] {
+  return requireColumns(csvHeaderColumns(sample), idColumn, required);
+}
+
+/**
+ * Column names of the header row in the sample, or an Error when the sample
+ * is not UTF-8 CSV
+ */
+export function csvHeaderColumns(sample: Buffer): string[] {
+  if (sample.length === 0) throw new Error('file is empty');
+  const problem = encodingProblem(sample);
+  if (problem) throw new Error(problem);
+
+  const text = (
+    sample.subarray(0, UTF8_BOM.length).equals(UTF8_BOM)
+      ? sample.subarray(UTF8_BOM.length)
+      : sample
+  ).toString('utf8');
+  const newline = text.search(/\r?\n/);
+  if (newline < 0 && sample.length >= HEADER_SAMPLE_BYTES) {
+    throw new Error('header row is too long');
+  }
+
+  let rows: string[][];
+  try {
+    rows = parse(newline < 0 ? text : text.slice(0, newline), {
+      trim: true,
+    }) as string[][];
+  } catch (err: any) {
+    throw new Error(`header row is not valid CSV: ${err?.message}`);
+  }
+  return rows[0] ?? [];
+}
+
+/**
+ * The columns, or an Error naming the required ones that are missing
+ */
+export function requireColumns(
+  columns: string[],
+  idColumn: string,
+  required: string[] = REQUIRED_IMPORT_COLUMNS,
+): string[] {
+  if (columns.length === 0) throw new Error('header row is empty');
+
+  const missing = [idColumn, ...required].filter((c) => !columns.includes(c));
+  if (missing.length > 0) {
+    throw new Error(
+      `missing required column(s): ${missing.join(', ')} (found: ${columns.join(', ')})`,
+    );
+  }
+  return columns;
+}
@@ -0,0 +1,59 @@
+import { dryRunCsv, scoreProblem } from './dry-run';
+
+describe('scoreProblem', () => {
+  it('should accept empty and 0-100 scores and explain the rest', () => {
+    expect(scoreProblem(undefined)).toBeNull();
+    expect(scoreProblem(' ')).toBeNull();
+    expect(scoreProblem('0')).toBeNull();
+    expect(scoreProblem('87.5')).toBeNull();
+    expect(scoreProblem('85%')).toBe('"85%" is not a number');
+    expect(scoreProblem('120')).toBe('120 is outside 0-100');
+    expect(scoreProblem('0.85')).toMatch(/0-1 fraction/);
+  });
+});
+
+describe('dryRunCsv', () => {
+  it('should list the summary, then quote fields and defuse formulas', () => {
+    expect(
+      dryRunCsv({
+        complete: false,
+        summary: {
+          records: 3,
+          inserts: 1,
+          updates: 0,
+          missingId: 0,
+          duplicateId: 1,
+          noEmail: 0,
+          invalidScore: 1,
+        },
+        problems: [
+          {
+            record: 3,
+            id: '=HYPERLINK("x")',
+            code: 'duplicate_id',
+            detail: 'a, b',
+          },
+          { record: 2, id: '-1+1', code: 'invalid_score', detail: '\tx' },
+          { record: null, id: null, code: 'parse_error', detail: 'bad' },
+        ],
+        problemsTruncated: false,
+      }).split('\r\n'),
+    ).toEqual([
+      'item,value',
+      'records,3',
+      'inserts,1',
+      'updates,0',
+      'missingId,0',
+      'duplicateId,1',
+      'noEmail,0',
+      'invalidScore,1',
+      'complete,false',
+      'problemsTruncated,false',
+      '',
+      'record,id,problem,detail',
+      `3,"'=HYPERLINK(""x"")",duplicate_id,"a, b"`,
+      "2,'-1+1,invalid_score,'\tx",
+      ',,parse_error,bad',
+    ]);
+  });
+});
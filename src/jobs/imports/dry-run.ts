@@ -0,0 +1,93 @@
+/**
+ * Import dry runs: what an import of a file would do, record by record,
+ * without writing. Records are numbered from 1 in file order (header excluded).
+ */
+
+export const DRY_RUN_PROBLEM_CODES = [
+  'missing_id',
+  'duplicate_id',
+  'no_email',
+  'invalid_score',
+  'parse_error',
+] as const;
+export type DryRunProblemCode = (typeof DRY_RUN_PROBLEM_CODES)[number];
+
+export interface DryRunProblem {
+  // null for problems with the file rather than a record (parse_error)
+  record: number | null;
+  id: string | null;
+  code: DryRunProblemCode;
+  detail: string;
+}
+
+export interface DryRunSummary {
+  records: number;
+  // First occurrences of ids not in the database yet / already there
+  inserts: number;
+  updates: number;
+  missingId: number;
+  duplicateId: number;
+  noEmail: number;
+  invalidScore: number;
+}
+
+export interface DryRunReport {
+  // false when the file could not be read to the end (see parse_error)
+  complete: boolean;
+  summary: DryRunSummary;
+  problems: DryRunProblem[];
+  problemsTruncated: boolean;
+}
+
+// Problems listed in a report; the summary counts all of them
+export const MAX_DRY_RUN_PROBLEMS = 10_000;
+
+// Ids looked up in the database per query
+export const DRY_RUN_LOOKUP_SIZE = 1000;
+
+// Plain decimal, the only form CAST(... AS NUMERIC) in score filters accepts
+const DECIMAL = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+
+/**
+ * Why a Suitability Score value would misbehave (score filters, facets and
+ * sorting expect a number from 0 to 100), or null when it is fine or empty
+ */
+export function scoreProblem(value: string | undefined): string | null {
+  const text = (value ?? '').trim();
+  if (!text) return null;
+  if (!DECIMAL.test(text)) return `"${text}" is not a number`;
+  const score = Number(text);
+  if (score < 0 || score > 100) return `${text} is outside 0-100`;
+  if (score > 0 && score < 1) {
+    return `${text} looks like a 0-1 fraction (see /jobs/fix-scores)`;
+  }
+  return null;
+}
+
+function csvField(value: string | number | null): string {
+  let text = value === null ? '' : String(value);
+  // Keep spreadsheet apps from running file values as formulas
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Report as a CSV file: the summary counts (item, value), a blank line, then
+ * the problems (record, id, problem, detail)
+ */
+export function dryRunCsv(report: DryRunReport): string {
+  const summary: [string, string | number][] = [
+    ...Object.entries(report.summary),
+    ['complete', String(report.complete)],
+    ['problemsTruncated', String(report.problemsTruncated)],
+  ];
+  return [
+    'item,value',
+    ...summary.map((entry) => entry.map(csvField).join(',')),
+    '',
+    'record,id,problem,detail',
+    ...report.problems.map((p) =>
+      [p.record, p.id, p.code, p.detail].map(csvField).join(','),
+    ),
+  ].join('\r\n');
+}
@@ -0,0 +1,162 @@
+import { Readable } from 'stream';
+import { deflateRawSync } from 'zlib';
+import {
+  detectImportFormat,
+  ImportFormat,
+  MAX_JSON_RECORD_MB,
+  readImportRecords,
+  validateImportHeader,
+} from './formats';
+import { excelDate, xlsxRows } from './xlsx';
+
+async function records(chunks: (string | Buffer)[], format: ImportFormat) {
+  const result: Record<string, string>[] = [];
+  for await (const record of readImportRecords(
+    Readable.from(chunks.map((c) => Buffer.from(c))),
+    format,
+  )) {
+    result.push(record);
+  }
+  return result;
+}
+
+// Zip of deflated entries, enough for the XLSX reader (no CRCs)
+function zip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(content));
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt16LE(nameBytes.length, 26);
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt16LE(nameBytes.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    locals.push(local, nameBytes, data);
+    central.push(entry, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  }
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+describe('detectImportFormat', () => {
+  it('should tell the formats apart by content, then extension', () => {
+    expect(detectImportFormat(Buffer.from('PK\x03\x04rest'))).toBe('xlsx');
+    expect(detectImportFormat(Buffer.from('\uFEFF\n [{"a":1}]'))).toBe('json');
+    expect(detectImportFormat(Buffer.from('{"a":1}\n'))).toBe('ndjson');
+    expect(detectImportFormat(Buffer.from(''), 'jobs.jsonl')).toBe('ndjson');
+    expect(detectImportFormat(Buffer.from('id,job_title\n'))).toBe('csv');
+    expect(() =>
+      detectImportFormat(Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1])),
+    ).toThrow(/\.xls/);
+  });
+});
+
+describe('readImportRecords', () => {
+  it('should split a JSON array across chunks into flat records', async () => {
+    const text =
+      '[{"job_posting_id": 1, "job_title": " Nurse ", "tags": ["a,]"]},\n' +
+      ' {"job_posting_id": "2", "job_summary": "Say \\"hi\\" {}", "remote": true, "x": null}]';
+    const chunks = text.match(/.{1,7}/gs);
+    expect(await records(chunks, 'json')).toEqual([
+      { job_posting_id: '1', job_title: 'Nurse', tags: '["a,]"]' },
+      {
+        job_posting_id: '2',
+        job_summary: 'Say "hi" {}',
+        remote: 'true',
+        x: '',
+      },
+    ]);
+    await expect(records(['[{"a":1},'], 'json')).rejects.toThrow(/not closed/);
+    await expect(records(['[1]'], 'json')).rejects.toThrow(
+      'element 1 is not a JSON object',
+    );
+    await expect(records(['[{"a":1},\n]'], 'json')).rejects.toThrow(
+      'trailing comma after element 1',
+    );
+    expect(await records(['[ ]'], 'json')).toEqual([]);
+  });
+
+  it('should read NDJSON lines and name the bad line', async () => {
+    expect(await records(['{"id":1}\r\n\n{"id"', ':2}'], 'ndjson')).toEqual([
+      { id: '1' },
+      { id: '2' },
+    ]);
+    await expect(records(['{"id":1}\n{oops}\n'], 'ndjson')).rejects.toThrow(
+      /line 2 is not valid JSON/,
+    );
+    const megabyte = 'x'.repeat(1024 * 1024);
+    await expect(
+      records(
+        ['{"id":1}\n', ...Array(MAX_JSON_RECORD_MB + 1).fill(megabyte)],
+        'ndjson',
+      ),
+    ).rejects.toThrow(`line 2 is over ${MAX_JSON_RECORD_MB} MB`);
+  });
+
+  it('should read the first XLSX sheet with shared strings and dates', async () => {
+    const file = zip({
+      'xl/workbook.xml':
+        '<workbook><sheets><sheet name="Jobs" sheetId="1" r:id="rId1"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels':
+        '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+      'xl/sharedStrings.xml':
+        '<sst><si><t>job_posting_id</t></si><si><r><t>job_</t></r><r><t>title</t></r></si><si><t>Nurse &amp; Aide</t></si></sst>',
+      'xl/styles.xml':
+        '<styleSheet><cellXfs><xf numFmtId="0"/><xf numFmtId="14"/></cellXfs></styleSheet>',
+      'xl/worksheets/sheet1.xml':
+        '<worksheet><sheetData>' +
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="D1" t="inlineStr"><is><t>posted</t></is></c></row>' +
+        '<row r="2"/>' +
+        '<row r="3"><c r="A3"><v>42</v></c><c r="B3" t="s"><v>2</v></c><c r="D3" s="1"><v>45000</v></c></row>' +
+        '</sheetData></worksheet>',
+    });
+    expect(await records([file], 'xlsx')).toEqual([
+      { job_posting_id: '42', job_title: 'Nurse & Aide', posted: '2023-03-15' },
+    ]);
+    await expect(
+      validateImportHeader(file, 'xlsx', 'job_posting_id'),
+    ).rejects.toThrow('missing required column(s): job_summary');
+    expect(excelDate(45000.5)).toBe('2023-03-15T12:00:00');
+  });
+
+  it('should keep XLSX row numbers and cap inflated parts', async () => {
+    const workbook = {
+      'xl/workbook.xml':
+        '<workbook><sheets><sheet name="Jobs" sheetId="1" r:id="rId1"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels':
+        '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+      'xl/worksheets/sheet1.xml':
+        '<worksheet><sheetData>' +
+        '<row r="2"><c r="A2" t="inlineStr"><is><t>id</t></is></c></row>' +
+        '<row r="5"><c r="B5"><v>7</v></c></row>' +
+        '</sheetData></worksheet>',
+    };
+    const rows: string[][] = [];
+    for await (const row of xlsxRows(zip(workbook), 1024 * 1024)) {
+      rows.push(row);
+    }
+    expect(rows).toEqual([[], ['id'], [], [], ['', '7']]);
+
+    const bomb = zip({
+      ...workbook,
+      'xl/sharedStrings.xml': `<sst><si><t>${'x'.repeat(2 * 1024 * 1024)}</t></si></sst>`,
+    });
+    await expect(xlsxRows(bomb, 1024 * 1024).next()).rejects.toThrow(
+      'XLSX part xl/sharedStrings.xml is over 1 MB uncompressed',
+    );
+  });
+});
@@ -0,0 +1,321 @@
+import { extname } from 'path';
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { parse } from 'csv-parse';
+import {
+  csvHeaderColumns,
+  encodingProblem,
+  HEADER_SAMPLE_BYTES,
+  requireColumns,
+} from './csv-header';
+import { xlsxRows } from './xlsx';
+import { mappedColumns, MappingRules } from './mapping';
+
+/**
+ * Import file formats. Every format is turned into the same flat records
+ * (column -> string) the CSV import produces, so the row pipeline (email
+ * extraction, enrichment, upsert) does not care where a record came from.
+ *
+ * - csv: header row + rows
+ * - ndjson: one JSON object per line
+ * - json: an array of JSON objects, read element by element
+ * - xlsx: first worksheet, first non-empty row is the header
+ */
+export const IMPORT_FORMATS = ['csv', 'ndjson', 'json', 'xlsx'] as const;
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+export type ImportRecord = Record<string, string>;
+
+// XLSX is read into memory (zip directory at the end), so it has its own limit
+export const MAX_XLSX_UPLOAD_MB = 200;
+
+// Largest XLSX part inflated into memory (shared strings, styles, one row);
+// the upload limit only caps the compressed size
+export const MAX_XLSX_PART_MB = 256;
+
+// Longest NDJSON line / JSON array element, so a file without separators is
+// not buffered whole
+export const MAX_JSON_RECORD_MB = 16;
+const MAX_JSON_RECORD_CHARS = MAX_JSON_RECORD_MB * 1024 * 1024;
+
+const ZIP_MAGIC = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+const OLE_MAGIC = Buffer.from([0xd0, 0xcf, 0x11, 0xe0]);
+
+function firstCharacter(sample: Buffer): string {
+  return /\S/.exec(sample.toString('utf8').replace(/^\uFEFF/, ''))?.[0] ?? '';
+}
+
+/**
+ * Format of a file from its first bytes, with the file extension deciding
+ * between NDJSON and CSV when the content is ambiguous.
+ */
+export function detectImportFormat(
+  sample: Buffer,
+  fileName?: string,
+): ImportFormat {
+  if (sample.subarray(0, 4).equals(ZIP_MAGIC)) return 'xlsx';
+  if (sample.subarray(0, 4).equals(OLE_MAGIC)) {
+    throw new Error('legacy .xls files are not supported; save as .xlsx');
+  }
+  const ext = extname(fileName ?? '').toLowerCase();
+  const first = firstCharacter(sample);
+  if (first === '[') return 'json';
+  if (first === '{' || ext === '.ndjson' || ext === '.jsonl') return 'ndjson';
+  return 'csv';
+}
+
+/**
+ * Flat import record for a parsed JSON value: strings are trimmed like CSV
+ * fields, numbers and booleans become text, nested values become JSON text.
+ */
+export function toImportRecord(value: unknown, where: string): ImportRecord {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${where} is not a JSON object`);
+  }
+  const record: ImportRecord = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (field === null || field === undefined) record[key] = '';
+    else if (typeof field === 'string') record[key] = field.trim();
+    else if (typeof field === 'object') record[key] = JSON.stringify(field);
+    else record[key] = String(field);
+  }
+  return record;
+}
+
+async function* textChunks(source: AsyncIterable<any>): AsyncGenerator<string> {
+  const decoder = new StringDecoder('utf8');
+  let first = true;
+  for await (const chunk of source) {
+    let text = typeof chunk === 'string' ? chunk : decoder.write(chunk);
+    if (first && text.length > 0) {
+      text = text.replace(/^\uFEFF/, '');
+      first = false;
+    }
+    yield text;
+  }
+  const rest = decoder.end();
+  if (rest) yield rest;
+}
+
+async function* ndjsonRecords(
+  source: AsyncIterable<any>,
+): AsyncGenerator<ImportRecord> {
+  let pending = '';
+  let lineNumber = 0;
+  const parseLine = (line: string) => {
+    lineNumber++;
+    if (!line.trim()) return null;
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch (err: any) {
+      throw new Error(`line ${lineNumber} is not valid JSON: ${err?.message}`);
+    }
+    return toImportRecord(value, `line ${lineNumber}`);
+  };
+
+  for await (const text of textChunks(source)) {
+    pending += text;
+    const lines = pending.split('\n');
+    pending = lines.pop();
+    for (const line of lines) {
+      const record = parseLine(line);
+      if (record) yield record;
+    }
+    if (pending.length > MAX_JSON_RECORD_CHARS) {
+      throw new Error(
+        `line ${lineNumber + 1} is over ${MAX_JSON_RECORD_MB} MB`,
+      );
+    }
+  }
+  const record = parseLine(pending);
+  if (record) yield record;
+}
+
+/**
+ * Elements of a top-level JSON array, parsed one at a time as the text
+ * streams in (the array itself is never held in memory).
+ */
+async function* jsonArrayRecords(
+  source: AsyncIterable<any>,
+): AsyncGenerator<ImportRecord> {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let started = false;
+  let ended = false;
+  let element = '';
+  let index = 0;
+
+  const parseElement = (text: string) => {
+    index++;
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch (err: any) {
+      throw new Error(`element ${index} is not valid JSON: ${err?.message}`);
+    }
+    return toImportRecord(value, `element ${index}`);
+  };
+
+  for await (const chunk of textChunks(source)) {
+    let from = 0;
+    for (let i = 0; i < chunk.length; i++) {
+      const ch = chunk[i];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === '\\') escaped = true;
+        else if (ch === '"') inString = false;
+        continue;
+      }
+      if (!started || ended) {
+        if (/\s/.test(ch)) continue;
+        if (ended) throw new Error('unexpected content after the JSON array');
+        if (ch !== '[') throw new Error('file is not a JSON array');
+        started = true;
+        depth = 1;
+        from = i + 1;
+        continue;
+      }
+
+      if (ch === '"') inString = true;
+      else if (ch === '{' || ch === '[') depth++;
+      else if (ch === '}' || ch === ']') depth--;
+
+      // An element ends at a comma or the closing bracket of the array
+      if ((ch === ',' && depth === 1) || depth === 0) {
+        element += chunk.slice(from, i);
+        if (element.trim() || ch === ',') yield parseElement(element);
+        else if (index > 0) {
+          throw new Error(`trailing comma after element ${index}`);
+        }
+        element = '';
+        from = i + 1;
+        if (depth === 0) ended = true;
+      }
+    }
+    if (started && !ended) element += chunk.slice(from);
+    if (element.length > MAX_JSON_RECORD_CHARS) {
+      throw new Error(`element ${index + 1} is over ${MAX_JSON_RECORD_MB} MB`);
+    }
+  }
+
+  if (!started) throw new Error('file is empty');
+  if (!ended) throw new Error('JSON array is not closed (file cut off?)');
+}
+
+async function* xlsxRecords(
+  source: AsyncIterable<any>,
+): AsyncGenerator<ImportRecord> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of source) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+
+  let header: string[] | null = null;
+  for await (const row of xlsxRows(
+    Buffer.concat(chunks),
+    MAX_XLSX_PART_MB * 1024 * 1024,
+  )) {
+    const values = row.map((v) => v.trim());
+    if (values.every((v) => v === '')) continue;
+    if (!header) {
+      header = values;
+      continue;
+    }
+    const record: ImportRecord = {};
+    header.forEach((column, i) => {
+      if (column) record[column] = values[i] ?? '';
+    });
+    yield record;
+  }
+}
+
+/**
+ * Records of an import input in the given format, read as they are consumed
+ * (so a slow consumer slows down reading)
+ */
+export function readImportRecords(
+  source: Readable,
+  format: ImportFormat,
+): AsyncIterable<ImportRecord> {
+  switch (format) {
+    case 'ndjson':
+      return ndjsonRecords(source);
+    case 'json':
+      return jsonArrayRecords(source);
+    case 'xlsx':
+      return xlsxRecords(source);
+    default: {
+      const parser = parse({
+        bom: true,
+        columns: true,
+        skip_empty_lines: true,
+        trim: true,
+      });
+      // Read errors (missing file, aborted upload) end the import like parse errors
+      source.on('error', (err) => parser.destroy(err));
+      source.pipe(parser);
+      return parser;
+    }
+  }
+}
+
+/**
+ * Columns of the first record (after the mapping profile, if any), checked
+ * like the CSV header before an import starts. The sample is the start of the
+ * file, or the whole file for XLSX.
+ */
+export async function validateImportHeader(
+  sample: Buffer,
+  format: ImportFormat,
+  idColumn: string,
+  mapping?: MappingRules,
+): Promise<string[]> {
+  if (sample.length === 0) throw new Error('file is empty');
+  const columns = await sampleColumns(sample, format);
+  return requireColumns(
+    mapping ? mappedColumns(columns, mapping) : columns,
+    idColumn,
+  );
+}
+
+async function sampleColumns(
+  sample: Buffer,
+  format: ImportFormat,
+): Promise<string[]> {
+  if (format === 'csv') return csvHeaderColumns(sample);
+
+  let first: ImportRecord | undefined;
+  if (format === 'xlsx') {
+    for await (const record of xlsxRecords(Readable.from([sample]))) {
+      first = record;
+      break;
+    }
+    if (!first) throw new Error('first worksheet has no data rows');
+  } else {
+    const problem = encodingProblem(sample);
+    if (problem) throw new Error(problem);
+    const records =
+      format === 'json'
+        ? jsonArrayRecords(Readable.from([sample]))
+        : ndjsonRecords(Readable.from([sample]));
+    try {
+      for await (const record of records) {
+        first = record;
+        break;
+      }
+    } catch (err: any) {
+      // A sample that ends inside the first record is only cut off
+      if (sample.length < HEADER_SAMPLE_BYTES) throw err;
+    }
+    if (!first) {
+      throw new Error(
+        sample.length < HEADER_SAMPLE_BYTES
+          ? 'file has no records'
+          : 'first record is too long',
+      );
+    }
+  }
+  return Object.keys(first);
+}
@@ -0,0 +1,87 @@
+import { applyMapping, mappedColumns, parseColumnMappings } from './mapping';
+
+describe('applyMapping', () => {
+  const columns = parseColumnMappings([
+    { source: 'ID', target: 'job_posting_id' },
+    {
+      source: 'description',
+      target: 'job_summary',
+      transforms: ['strip_html'],
+    },
+    { source: 'summary', target: 'job_summary', transforms: ['trim'] },
+    {
+      source: 'score',
+      target: 'Suitability Score',
+      transforms: [
+        { type: 'scale', from: [0, 1], to: [0, 100] },
+        { type: 'round', digits: 1 },
+      ],
+    },
+    {
+      source: 'type',
+      target: 'job_type',
+      transforms: [
+        { type: 'map', values: { FT: 'Full-time' } },
+        { type: 'default', value: 'Unknown' },
+      ],
+    },
+  ]);
+
+  it('should rename and transform mapped columns', () => {
+    const record = {
+      id: '7',
+      description: '',
+      summary: ' Care <b>daily</b> ',
+      score: '0.8765',
+      type: 'FT',
+      job_title: 'Nurse',
+    };
+    expect(applyMapping(record, { columns, keepUnmapped: true })).toEqual({
+      job_posting_id: '7',
+      job_summary: 'Care <b>daily</b>',
+      'Suitability Score': '87.7',
+      job_type: 'Full-time',
+      job_title: 'Nurse',
+    });
+    expect(
+      applyMapping({ id: '8', score: 'n/a' }, { columns, keepUnmapped: false }),
+    ).toEqual({
+      job_posting_id: '8',
+      'Suitability Score': 'n/a',
+      job_type: 'Unknown',
+    });
+  });
+
+  it('should report the columns after mapping', () => {
+    expect(
+      mappedColumns(['Id', 'Summary', 'job_title'], {
+        columns,
+        keepUnmapped: true,
+      }),
+    ).toEqual(['job_title', 'job_posting_id', 'job_summary', 'job_type']);
+  });
+
+  it('should reject invalid mappings', () => {
+    expect(() => parseColumnMappings([])).toThrow(/non-empty array/);
+    expect(() =>
+      parseColumnMappings([
+        { source: 'a', target: 'x' },
+        { source: ' A ', target: 'y' },
+      ]),
+    ).toThrow('columns[1]: source column "A" is mapped twice');
+    expect(() =>
+      parseColumnMappings([
+        {
+          source: 'a',
+          target: 'x',
+          transforms: [{ type: 'scale', from: [1, 1] }],
+        },
+      ]),
+    ).toThrow(/scale.from must be two different numbers/);
+    expect(() =>
+      parseColumnMappings([
+        { source: 'a', target: 'x', transforms: ['shout'] },
+      ]),
+    ).toThrow(/unknown transform "shout"/);
+  });
+});
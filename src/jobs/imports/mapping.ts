@@ -0,0 +1,249 @@
+import { ImportRecord } from './formats';
+
+/**
+ * Column mapping profiles: rename source columns to the canonical keys stored
+ * in JobPosting.data (job_posting_id, job_title, job_summary, Suitability
+ * Score, ...) and clean their values on the way in. Source columns match
+ * case-insensitively and ignoring surrounding spaces.
+ */
+
+export const SIMPLE_TRANSFORMS = [
+  'trim',
+  'lowercase',
+  'uppercase',
+  'collapse_whitespace',
+  'strip_html',
+] as const;
+export type SimpleTransform = (typeof SIMPLE_TRANSFORMS)[number];
+
+export type ValueTransform =
+  | { type: SimpleTransform }
+  // Linear rescale, e.g. a 0..1 score to 0..100
+  | { type: 'scale'; from: [number, number]; to: [number, number] }
+  | { type: 'round'; digits: number }
+  // Fixed replacements for whole values ("FT" -> "Full-time")
+  | { type: 'map'; values: Record<string, string> }
+  // Used when the value is empty or the column is missing
+  | { type: 'default'; value: string };
+
+export interface ColumnMapping {
+  source: string;
+  target: string;
+  transforms: ValueTransform[];
+}
+
+export interface MappingRules {
+  columns: ColumnMapping[];
+  // Whether columns without a mapping are kept under their own name
+  keepUnmapped: boolean;
+}
+
+const MAX_KEY_LENGTH = 100;
+const MAX_ROUND_DIGITS = 10;
+
+function columnKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function parseKey(value: unknown, what: string): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`${what} must be a non-empty string`);
+  }
+  if (value.trim().length > MAX_KEY_LENGTH) {
+    throw new Error(`${what} must be at most ${MAX_KEY_LENGTH} characters`);
+  }
+  return value.trim();
+}
+
+function parseRange(value: unknown, what: string): [number, number] {
+  if (
+    !Array.isArray(value) ||
+    value.length !== 2 ||
+    !value.every((n) => typeof n === 'number' && Number.isFinite(n)) ||
+    value[0] === value[1]
+  ) {
+    throw new Error(`${what} must be two different numbers`);
+  }
+  return [value[0], value[1]];
+}
+
+function parseTransform(value: unknown, where: string): ValueTransform {
+  const spec = (typeof value === 'string' ? { type: value } : value) as any;
+  const type = spec?.type;
+  if (SIMPLE_TRANSFORMS.includes(type)) return { type };
+  switch (type) {
+    case 'scale':
+      return {
+        type,
+        from: parseRange(spec.from, `${where}: scale.from`),
+        to: parseRange(spec.to, `${where}: scale.to`),
+      };
+    case 'round': {
+      const digits = spec.digits ?? 0;
+      if (
+        !Number.isInteger(digits) ||
+        digits < 0 ||
+        digits > MAX_ROUND_DIGITS
+      ) {
+        throw new Error(
+          `${where}: round.digits must be an integer from 0 to ${MAX_ROUND_DIGITS}`,
+        );
+      }
+      return { type, digits };
+    }
+    case 'map': {
+      const values = spec.values;
+      if (
+        !values ||
+        typeof values !== 'object' ||
+        Array.isArray(values) ||
+        !Object.values(values).every((v) => typeof v === 'string')
+      ) {
+        throw new Error(`${where}: map.values must map strings to strings`);
+      }
+      return { type, values: { ...values } };
+    }
+    case 'default':
+      if (typeof spec.value !== 'string') {
+        throw new Error(`${where}: default.value must be a string`);
+      }
+      return { type, value: spec.value };
+    default:
+      throw new Error(
+        `${where}: unknown transform ${JSON.stringify(type ?? value)} (use ${[...SIMPLE_TRANSFORMS, 'scale', 'round', 'map', 'default'].join(', ')})`,
+      );
+  }
+}
+
+/**
+ * Validate mapping columns from a request body. Throws an Error naming the
+ * first invalid entry.
+ */
+export function parseColumnMappings(value: unknown): ColumnMapping[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error('columns must be a non-empty array');
+  }
+  const seen = new Set<string>();
+  return value.map((entry: any, i) => {
+    const where = `columns[${i}]`;
+    if (!entry || typeof entry !== 'object') {
+      throw new Error(`${where} must be an object`);
+    }
+    const source = parseKey(entry.source, `${where}.source`);
+    if (seen.has(columnKey(source))) {
+      throw new Error(`${where}: source column "${source}" is mapped twice`);
+    }
+    seen.add(columnKey(source));
+    const transforms = entry.transforms ?? [];
+    if (!Array.isArray(transforms)) {
+      throw new Error(`${where}.transforms must be an array`);
+    }
+    return {
+      source,
+      target: parseKey(entry.target, `${where}.target`),
+      transforms: transforms.map((t, j) =>
+        parseTransform(t, `${where}.transforms[${j}]`),
+      ),
+    };
+  });
+}
+
+function applyTransform(value: string, transform: ValueTransform): string {
+  switch (transform.type) {
+    case 'trim':
+      return value.trim();
+    case 'lowercase':
+      return value.toLowerCase();
+    case 'uppercase':
+      return value.toUpperCase();
+    case 'collapse_whitespace':
+      return value.replace(/\s+/g, ' ').trim();
+    case 'strip_html':
+      return value
+        .replace(/<(br|\/p|\/li|\/div)\b[^>]*>/gi, '\n')
+        .replace(/<[^>]*>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>');
+    case 'scale': {
+      const n = Number(value.trim());
+      if (!value.trim() || !Number.isFinite(n)) return value;
+      const [fromMin, fromMax] = transform.from;
+      const [toMin, toMax] = transform.to;
+      const scaled =
+        toMin + ((n - fromMin) / (fromMax - fromMin)) * (toMax - toMin);
+      // Drop floating point noise (0.7 * 100 = 70.00000000000001)
+      return String(Number(scaled.toPrecision(12)));
+    }
+    case 'round': {
+      const n = Number(value.trim());
+      if (!value.trim() || !Number.isFinite(n)) return value;
+      return String(Number(n.toFixed(transform.digits)));
+    }
+    case 'map':
+      return Object.prototype.hasOwnProperty.call(transform.values, value)
+        ? transform.values[value]
+        : value;
+    case 'default':
+      return value.trim() ? value : transform.value;
+  }
+}
+
+/**
+ * Record with mapped columns renamed and transformed. When several sources
+ * map to one target the first non-empty value (in mapping order) wins;
+ * mapped values also win over an unmapped column of the same name.
+ */
+export function applyMapping(
+  record: ImportRecord,
+  rules: MappingRules,
+): ImportRecord {
+  const byKey = new Map<string, string>();
+  for (const [column, value] of Object.entries(record)) {
+    byKey.set(columnKey(column), value);
+  }
+
+  const mapped: ImportRecord = {};
+  for (const column of rules.columns) {
+    const raw = byKey.get(columnKey(column.source));
+    const value = column.transforms.reduce(applyTransform, raw ?? '');
+    if (raw === undefined && value === '') continue;
+    if (!mapped[column.target]) mapped[column.target] = value;
+  }
+  if (!rules.keepUnmapped) return mapped;
+
+  const sources = new Set(rules.columns.map((c) => columnKey(c.source)));
+  const result: ImportRecord = {};
+  for (const [column, value] of Object.entries(record)) {
+    if (!sources.has(columnKey(column))) result[column] = value;
+  }
+  return Object.assign(result, mapped);
+}
+
+/**
+ * Columns a record with the given source columns has after mapping (to check
+ * required columns before an import starts)
+ */
+export function mappedColumns(
+  columns: string[],
+  rules: MappingRules,
+): string[] {
+  const present = new Set(columns.map(columnKey));
+  const result = new Set<string>();
+  if (rules.keepUnmapped) {
+    const sources = new Set(rules.columns.map((c) => columnKey(c.source)));
+    for (const column of columns) {
+      if (!sources.has(columnKey(column))) result.add(column);
+    }
+  }
+  for (const column of rules.columns) {
+    if (
+      present.has(columnKey(column.source)) ||
+      column.transforms.some((t) => t.type === 'default')
+    ) {
+      result.add(column.target);
+    }
+  }
+  return Array.from(result);
+}
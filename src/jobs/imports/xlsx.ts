@@ -0,0 +1,347 @@
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { createInflateRaw, inflateRawSync } from 'zlib';
+
+/**
+ * Minimal XLSX reader for imports: an XLSX file is a zip of XML parts. Shared
+ * strings and styles are read up front; the first worksheet is inflated as a
+ * stream and yielded row by row, so only the compressed file and the string
+ * table are held in memory. Zip64 and encrypted workbooks are not supported.
+ */
+
+// Zip record signatures
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Built-in number formats that display dates and times
+const DATE_FORMAT_IDS = new Set([
+  14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36,
+  45, 46, 47, 50, 51, 52, 53, 54, 55, 56, 57, 58,
+]);
+
+// Rows in an Excel sheet; larger r attributes are not filled up to
+const MAX_SHEET_ROWS = 1_048_576;
+
+// Days between the Excel (1900) and Unix epochs
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+const DATE1904_OFFSET_DAYS = 1462;
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+function readZipEntries(zip: Buffer): Map<string, ZipEntry> {
+  // The end record sits in the last 22 bytes plus an optional comment
+  let end = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 65557); i--) {
+    if (zip.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('file is not a valid XLSX (zip) file');
+
+  const count = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new Error('XLSX files over 4 GB (zip64) are not supported');
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  for (let i = 0; i < count; i++) {
+    if (zip.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('XLSX zip directory is corrupt');
+    }
+    const flags = zip.readUInt16LE(offset + 8);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+    if (flags & 0x1) throw new Error('encrypted XLSX files are not supported');
+    entries.set(name, {
+      name,
+      method: zip.readUInt16LE(offset + 10),
+      compressedSize: zip.readUInt32LE(offset + 20),
+      localHeaderOffset: zip.readUInt32LE(offset + 42),
+    });
+    offset +=
+      46 +
+      nameLength +
+      zip.readUInt16LE(offset + 30) +
+      zip.readUInt16LE(offset + 32);
+  }
+  return entries;
+}
+
+function entryData(zip: Buffer, entry: ZipEntry): Buffer {
+  const header = entry.localHeaderOffset;
+  if (zip.readUInt32LE(header) !== LOCAL_FILE_HEADER) {
+    throw new Error('XLSX zip entry is corrupt');
+  }
+  const start =
+    header + 30 + zip.readUInt16LE(header + 26) + zip.readUInt16LE(header + 28);
+  if (entry.method !== 0 && entry.method !== 8) {
+    throw new Error(`unsupported XLSX compression method ${entry.method}`);
+  }
+  return zip.subarray(start, start + entry.compressedSize);
+}
+
+function entryText(zip: Buffer, entry: ZipEntry, maxBytes: number): string {
+  const data = entryData(zip, entry);
+  if (entry.method !== 8) return data.toString('utf8');
+  try {
+    return inflateRawSync(data, { maxOutputLength: maxBytes }).toString('utf8');
+  } catch (err: any) {
+    if (err?.code !== 'ERR_BUFFER_TOO_LARGE') throw err;
+    throw new Error(
+      `XLSX part ${entry.name} is over ${Math.floor(maxBytes / 1024 / 1024)} MB uncompressed`,
+    );
+  }
+}
+
+function entryStream(zip: Buffer, entry: ZipEntry): Readable {
+  const data = Readable.from([entryData(zip, entry)]);
+  return entry.method === 8 ? data.pipe(createInflateRaw()) : data;
+}
+
+export function decodeXml(text: string): string {
+  return (
+    text
+      .replace(/&(lt|gt|amp|quot|apos|#\d+|#x[0-9a-fA-F]+);/g, (_, name) => {
+        switch (name) {
+          case 'lt':
+            return '<';
+          case 'gt':
+            return '>';
+          case 'amp':
+            return '&';
+          case 'quot':
+            return '"';
+          case 'apos':
+            return "'";
+          default:
+            return String.fromCodePoint(
+              name[1] === 'x'
+                ? parseInt(name.slice(2), 16)
+                : parseInt(name.slice(1), 10),
+            );
+        }
+      })
+      // Excel escapes control characters as _xHHHH_
+      .replace(/_x([0-9A-Fa-f]{4})_/g, (_, hex) =>
+        String.fromCharCode(parseInt(hex, 16)),
+      )
+  );
+}
+
+function attributes(tag: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:]+)="([^"]*)"/g)) {
+    result[match[1]] = decodeXml(match[2]);
+  }
+  return result;
+}
+
+// Text of the <t> elements, without phonetic runs (<rPh>)
+function textContent(xml: string): string {
+  return Array.from(
+    xml
+      .replace(/<rPh\b[\s\S]*?<\/rPh>/g, '')
+      .matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g),
+  )
+    .map((m) => decodeXml(m[1]))
+    .join('');
+}
+
+function sharedStrings(xml: string): string[] {
+  return Array.from(xml.matchAll(/<si>([\s\S]*?)<\/si>|<si\/>/g)).map((m) =>
+    textContent(m[1] ?? ''),
+  );
+}
+
+// Indexes of cell styles (s="n") that display a date
+function dateStyles(xml: string): Set<number> {
+  const dateFormats = new Set(DATE_FORMAT_IDS);
+  for (const match of xml.matchAll(/<numFmt\b[^>]*>/g)) {
+    const { numFmtId, formatCode } = attributes(match[0]);
+    // Ignore quoted literals and [colour]/[locale] sections
+    const code = (formatCode ?? '').replace(/"[^"]*"|\[[^\]]*\]/g, '');
+    if (/[dmyhs]/i.test(code)) dateFormats.add(Number(numFmtId));
+  }
+
+  const result = new Set<number>();
+  const cellXfs = /<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/.exec(xml)?.[1] ?? '';
+  Array.from(cellXfs.matchAll(/<xf\b[^>]*>/g)).forEach((match, index) => {
+    if (dateFormats.has(Number(attributes(match[0]).numFmtId))) {
+      result.add(index);
+    }
+  });
+  return result;
+}
+
+/**
+ * ISO date (or date-time) for an Excel date serial
+ */
+export function excelDate(serial: number, date1904 = false): string {
+  const days =
+    serial - EXCEL_EPOCH_OFFSET_DAYS + (date1904 ? DATE1904_OFFSET_DAYS : 0);
+  const iso = new Date(Math.round(days * 86_400_000)).toISOString();
+  return Number.isInteger(serial) ? iso.slice(0, 10) : iso.slice(0, 19);
+}
+
+// "AB12" -> 27
+function columnIndex(ref: string): number {
+  let index = 0;
+  for (const ch of ref.replace(/\d+$/, '').toUpperCase()) {
+    index = index * 26 + (ch.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+interface SheetContext {
+  strings: string[];
+  dateStyles: Set<number>;
+  date1904: boolean;
+}
+
+function parseRow(xml: string, ctx: SheetContext): string[] {
+  const row: string[] = [];
+  for (const match of xml.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+    const attrs = attributes(match[1]);
+    const body = match[2] ?? '';
+    const index = attrs.r ? columnIndex(attrs.r) : row.length;
+    const raw = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+
+    let value = '';
+    if (attrs.t === 'inlineStr') {
+      value = textContent(body);
+    } else if (raw !== undefined) {
+      const text = decodeXml(raw);
+      if (attrs.t === 's') value = ctx.strings[Number(text)] ?? '';
+      else if (attrs.t === 'b') value = text === '1' ? 'true' : 'false';
+      else if (
+        (attrs.t === undefined || attrs.t === 'n') &&
+        ctx.dateStyles.has(Number(attrs.s)) &&
+        Number.isFinite(Number(text))
+      ) {
+        value = excelDate(Number(text), ctx.date1904);
+      } else value = text;
+    }
+    while (row.length < index) row.push('');
+    row[index] = value;
+  }
+  return row;
+}
+
+/**
+ * Path of the first worksheet in workbook order
+ */
+function firstSheetPath(
+  zip: Buffer,
+  entries: Map<string, ZipEntry>,
+  maxBytes: number,
+): string {
+  const workbook = entries.get('xl/workbook.xml');
+  const rels = entries.get('xl/_rels/workbook.xml.rels');
+  if (!workbook || !rels) {
+    throw new Error('file is not an XLSX workbook');
+  }
+  const sheet = /<sheet\b[^>]*>/.exec(entryText(zip, workbook, maxBytes))?.[0];
+  if (!sheet) throw new Error('workbook has no sheets');
+  const relId = attributes(sheet)['r:id'];
+
+  for (const match of entryText(zip, rels, maxBytes).matchAll(
+    /<Relationship\b[^>]*>/g,
+  )) {
+    const { Id, Target } = attributes(match[0]);
+    if (Id === relId) {
+      return Target.startsWith('/')
+        ? Target.slice(1)
+        : `xl/${Target.replace(/^\.\//, '')}`;
+    }
+  }
+  throw new Error('first sheet of the workbook not found');
+}
+
+/**
+ * Cell values of the first worksheet, one array per row from row 1 (rows the
+ * file leaves out are yielded empty, so row numbers match the sheet).
+ * maxPartBytes caps the inflated size of the parts read into memory (shared
+ * strings, styles, a single row), against zip bombs.
+ */
+export async function* xlsxRows(
+  zip: Buffer,
+  maxPartBytes: number,
+): AsyncGenerator<string[]> {
+  const entries = readZipEntries(zip);
+  const sheetPath = firstSheetPath(zip, entries, maxPartBytes);
+  const sheet = entries.get(sheetPath);
+  if (!sheet) throw new Error(`worksheet ${sheetPath} is missing`);
+
+  const stringsEntry = entries.get('xl/sharedStrings.xml');
+  const stylesEntry = entries.get('xl/styles.xml');
+  const ctx: SheetContext = {
+    strings: stringsEntry
+      ? sharedStrings(entryText(zip, stringsEntry, maxPartBytes))
+      : [],
+    dateStyles: stylesEntry
+      ? dateStyles(entryText(zip, stylesEntry, maxPartBytes))
+      : new Set(),
+    date1904: /date1904="(1|true)"/.test(
+      entryText(zip, entries.get('xl/workbook.xml'), maxPartBytes),
+    ),
+  };
+
+  // Rows yielded so far; a row's r attribute is its 1-based number
+  let rowCount = 0;
+  const missingRows = function* (tag: string) {
+    const number = Number(attributes(tag).r);
+    const fill = Number.isInteger(number) && number <= MAX_SHEET_ROWS;
+    while (fill && rowCount < number - 1) {
+      rowCount++;
+      yield [];
+    }
+    rowCount++;
+  };
+
+  const decoder = new StringDecoder('utf8');
+  let pending = '';
+  for await (const chunk of entryStream(zip, sheet)) {
+    pending += decoder.write(chunk);
+    let consumed = 0;
+    for (;;) {
+      // "<row " / "<row>" / "<row/>", not "<rowBreaks>"
+      const start = pending.slice(consumed).search(/<row[\s>/]/);
+      if (start < 0) break;
+      const rowStart = consumed + start;
+      const tagEnd = pending.indexOf('>', rowStart);
+      if (tagEnd < 0) break;
+      const rowEnd =
+        pending[tagEnd - 1] === '/'
+          ? tagEnd
+          : pending.indexOf('</row>', tagEnd);
+      if (rowEnd < 0) break;
+      yield* missingRows(pending.slice(rowStart, tagEnd));
+      if (rowEnd === tagEnd) {
+        yield [];
+        consumed = tagEnd + 1;
+        continue;
+      }
+      yield parseRow(pending.slice(tagEnd + 1, rowEnd), ctx);
+      consumed = rowEnd + '</row>'.length;
+    }
+    // Keep an unfinished row (or a few bytes of a split "<row" tag)
+    const open = pending.slice(consumed).search(/<row[\s>/]/);
+    pending =
+      open >= 0
+        ? pending.slice(consumed + open)
+        : pending.slice(Math.max(consumed, pending.length - 4));
+    if (pending.length > maxPartBytes) {
+      throw new Error(
+        `XLSX row ${rowCount + 1} is over ${Math.floor(maxPartBytes / 1024 / 1024)} MB uncompressed`,
+      );
+    }
+  }
+}
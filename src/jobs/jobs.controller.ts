@@ -3,13 +3,21 @@ import {
   Get,
   Query,
   Post,
+  Put,
+  Patch,
+  Delete,
   Param,
   Body,
   BadRequestException,
   UseInterceptors,
+  UploadedFile,
   UploadedFiles,
+  Res,
 } from '@nestjs/common';
-import { FilesInterceptor } from '@nestjs/platform-express';
+import type { Response } from 'express';
+import { FileInterceptor, FilesInterceptor } from '@nestjs/platform-express';
+import { diskStorage } from 'multer';
+import { unlink } from 'fs/promises';
 import {
   ApiQuery,
   ApiTags,
@@ -18,6 +26,44 @@ import {
   ApiConsumes,
 } from '@nestjs/swagger';
 import { JobsService } from './jobs.service';
+import { FACET_NAMES, parseFacets, SCORE_BUCKETS } from './search/facets';
+import { SORT_MODES, SortMode } from './search/sort';
+import {
+  DEFAULT_HIGHLIGHT_OPTIONS,
+  HighlightOptions,
+  isValidMarker,
+  MAX_MARKER_LENGTH,
+  MAX_SNIPPET_WORDS,
+} from './search/highlight';
+import {
+  Coordinates,
+  DEFAULT_RADIUS_KM,
+  MAX_RADIUS_KM,
+  resolveNear,
+} from './search/geo';
+import { WORKPLACE_TYPES, WorkplaceType } from './enrichment/workplace';
+import { SENIORITY_LEVELS, SeniorityLevel } from './enrichment/seniority';
+import { ALERT_FREQUENCIES } from './alerts/saved-search';
+import { SavedSearchInput } from './providers/saved-search.service';
+import { MappingProfileInput } from './providers/mapping-profile.service';
+import {
+  DEFAULT_IMPORT_LIST_LIMIT,
+  IMPORT_STATES,
+  ImportState,
+  MAX_IMPORT_LIST_LIMIT,
+} from './providers/import.service';
+import {
+  MAX_IMPORT_BATCH_SIZE,
+  importStorageDir,
+  MAX_IMPORT_INTERVAL_MS,
+  maxUploadBytes,
+} from './imports/csv-header';
+import {
+  IMPORT_FORMATS,
+  ImportFormat,
+  MAX_XLSX_UPLOAD_MB,
+} from './imports/formats';
+import { dryRunCsv } from './imports/dry-run';
 
 @ApiTags('jobs')
 @Controller('jobs')
@@ -25,8 +71,62 @@ export class JobsController {
   constructor(private readonly jobsService: JobsService) {}
 
   @Get('search')
-  @ApiQuery({ name: 'q', required: false, description: 'search query' })
-  @ApiQuery({ name: 'location', required: false, description: 'location' })
+  @ApiQuery({
+    name: 'q',
+    required: false,
+    description:
+      'search query. Supports "exact phrase", -exclusion, OR/AND, (grouping), title:/function:/location:/summary: scopes, email:yes|no and score:>70. Korean role words (간호사, 소프트웨어 개발자) are translated to English terms (see translatedQuery)',
+  })
+  @ApiQuery({
+    name: 'location',
+    required: false,
+    description:
+      'location text; also matches postings whose parsed city or province/state it names (e.g. Toronto matches GTA)',
+  })
+  @ApiQuery({
+    name: 'region',
+    required: false,
+    description:
+      'province/state code or name of the parsed location (ON, Ontario)',
+  })
+  @ApiQuery({
+    name: 'country',
+    required: false,
+    description: 'country code or name of the parsed location (CA, Canada)',
+  })
+  @ApiQuery({
+    name: 'workplace',
+    required: false,
+    description: `comma separated workplace types (${WORKPLACE_TYPES.join(', ')})`,
+  })
+  @ApiQuery({
+    name: 'seniority',
+    required: false,
+    description: `comma separated seniority levels (${SENIORITY_LEVELS.join(', ')}; director includes VP and C-level)`,
+  })
+  @ApiQuery({
+    name: 'minSalary',
+    required: false,
+    description:
+      "minimum annualized salary (hourly/monthly pay is converted to a full-time year). Amounts are compared as-is in each posting's currency, without conversion (KRW postings are in won); combine with country or region to stay in one currency",
+  })
+  @ApiQuery({
+    name: 'maxSalary',
+    required: false,
+    description:
+      'maximum annualized salary, in the posting currency like minSalary',
+  })
+  @ApiQuery({
+    name: 'near',
+    required: false,
+    description:
+      'radius search centre: "lat,lon" or a known city ("Toronto, ON"); results include distanceKm',
+  })
+  @ApiQuery({
+    name: 'radiusKm',
+    required: false,
+    description: `radius around near in km (default ${DEFAULT_RADIUS_KM}, max ${MAX_RADIUS_KM})`,
+  })
   @ApiQuery({
     name: 'isEmailAvailable',
     required: false,
@@ -44,12 +144,111 @@ export class JobsController {
     required: false,
     description: 'page offset (default 0)',
   })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description:
+      'opaque cursor from a previous response (nextCursor); replaces offset',
+  })
+  @ApiQuery({
+    name: 'includeCount',
+    required: false,
+    type: Boolean,
+    description:
+      'compute the total count (default true without cursor, false with cursor)',
+  })
+  @ApiQuery({
+    name: 'jobFunction',
+    required: false,
+    description: 'exact job_function filter (value from the function facet)',
+  })
+  @ApiQuery({
+    name: 'scoreBucket',
+    required: false,
+    description: `Suitability Score bucket (${SCORE_BUCKETS.map((b) => b.key).join(', ')})`,
+  })
+  @ApiQuery({
+    name: 'facets',
+    required: false,
+    description: `facet counts to return: "all" or a comma separated list of ${FACET_NAMES.join(', ')}`,
+  })
+  @ApiQuery({
+    name: 'sort',
+    required: false,
+    enum: SORT_MODES,
+    description:
+      'relevance (default with q), newest (default without q), suitability, blended (relevance x recency decay x suitability), or salary (highest annualized pay first)',
+  })
+  @ApiQuery({
+    name: 'fuzzy',
+    required: false,
+    type: Boolean,
+    description:
+      'typo-tolerant matching with a corrected-query hint (default true)',
+  })
+  @ApiQuery({
+    name: 'highlight',
+    required: false,
+    type: Boolean,
+    description:
+      'add highlighted job_title and a job_summary snippet around matched terms (including synonyms)',
+  })
+  @ApiQuery({
+    name: 'highlightStart',
+    required: false,
+    description: `opening marker (default ${DEFAULT_HIGHLIGHT_OPTIONS.startMarker})`,
+  })
+  @ApiQuery({
+    name: 'highlightEnd',
+    required: false,
+    description: `closing marker (default ${DEFAULT_HIGHLIGHT_OPTIONS.endMarker})`,
+  })
+  @ApiQuery({
+    name: 'snippetWords',
+    required: false,
+    description: `job_summary snippet length in words (default ${DEFAULT_HIGHLIGHT_OPTIONS.snippetWords}, max ${MAX_SNIPPET_WORDS})`,
+  })
+  @ApiQuery({
+    name: 'explain',
+    required: false,
+    type: Boolean,
+    description:
+      'add per-result scoring details: matched terms and synonyms per field, score components, admitting related job titles and sort keys',
+  })
+  @ApiQuery({
+    name: 'collapse',
+    required: false,
+    type: Boolean,
+    description:
+      'one result per near-duplicate cluster (reposts, multi-location copies): the newest matching posting, with duplicates.count and duplicates.job_posting_ids of the others',
+  })
   async search(
     @Query('q') q?: string,
     @Query('location') location?: string,
     @Query('isEmailAvailable') isEmailAvailableStr?: string,
     @Query('limit') limitStr?: string,
     @Query('offset') offsetStr?: string,
+    @Query('cursor') cursor?: string,
+    @Query('includeCount') includeCountStr?: string,
+    @Query('jobFunction') jobFunction?: string,
+    @Query('scoreBucket') scoreBucket?: string,
+    @Query('facets') facetsStr?: string,
+    @Query('sort') sort?: string,
+    @Query('fuzzy') fuzzyStr?: string,
+    @Query('highlight') highlightStr?: string,
+    @Query('highlightStart') highlightStart?: string,
+    @Query('highlightEnd') highlightEnd?: string,
+    @Query('snippetWords') snippetWordsStr?: string,
+    @Query('explain') explainStr?: string,
+    @Query('region') region?: string,
+    @Query('country') country?: string,
+    @Query('near') nearStr?: string,
+    @Query('radiusKm') radiusKmStr?: string,
+    @Query('workplace') workplaceStr?: string,
+    @Query('minSalary') minSalaryStr?: string,
+    @Query('maxSalary') maxSalaryStr?: string,
+    @Query('seniority') seniorityStr?: string,
+    @Query('collapse') collapseStr?: string,
   ) {
     const limit = limitStr ? Number(limitStr) : undefined;
     const offset = offsetStr ? Number(offsetStr) : undefined;
@@ -57,36 +256,697 @@ export class JobsController {
       isEmailAvailableStr !== undefined
         ? isEmailAvailableStr === 'true'
         : undefined;
+    const includeCount =
+      includeCountStr !== undefined ? includeCountStr === 'true' : undefined;
+    const fuzzy = fuzzyStr !== undefined ? fuzzyStr !== 'false' : undefined;
 
     if (
       (!q || q.trim() === '') &&
       (!location || location.trim() === '') &&
-      isEmailAvailable === undefined
+      isEmailAvailable === undefined &&
+      (!jobFunction || jobFunction.trim() === '') &&
+      (!scoreBucket || scoreBucket.trim() === '') &&
+      (!region || region.trim() === '') &&
+      (!country || country.trim() === '') &&
+      (!nearStr || nearStr.trim() === '') &&
+      (!workplaceStr || workplaceStr.trim() === '') &&
+      !minSalaryStr &&
+      !maxSalaryStr &&
+      (!seniorityStr || seniorityStr.trim() === '')
+    ) {
+      throw new BadRequestException(
+        'q, location, isEmailAvailable, jobFunction, scoreBucket, region, country, near, workplace, seniority, minSalary 또는 maxSalary 중 하나는 반드시 제공해야 합니다.',
+      );
+    }
+
+    const seniority = (seniorityStr ?? '')
+      .split(',')
+      .map((v) => v.trim().toLowerCase())
+      .filter(Boolean);
+    if (
+      seniority.some((v) => !SENIORITY_LEVELS.includes(v as SeniorityLevel))
+    ) {
+      throw new BadRequestException(
+        `seniority는 ${SENIORITY_LEVELS.join(', ')} 중에서 선택해야 합니다.`,
+      );
+    }
+
+    const minSalary = minSalaryStr ? Number(minSalaryStr) : undefined;
+    const maxSalary = maxSalaryStr ? Number(maxSalaryStr) : undefined;
+    for (const [name, value] of [
+      ['minSalary', minSalary],
+      ['maxSalary', maxSalary],
+    ] as const) {
+      if (value !== undefined && !(Number.isFinite(value) && value >= 0)) {
+        throw new BadRequestException(`${name}는 0 이상의 숫자여야 합니다.`);
+      }
+    }
+
+    const workplace = (workplaceStr ?? '')
+      .split(',')
+      .map((v) => v.trim().toLowerCase())
+      .filter(Boolean);
+    if (workplace.some((w) => !WORKPLACE_TYPES.includes(w as WorkplaceType))) {
+      throw new BadRequestException(
+        `workplace는 ${WORKPLACE_TYPES.join(', ')} 중에서 선택해야 합니다.`,
+      );
+    }
+
+    let near: Coordinates | undefined;
+    if (nearStr && nearStr.trim() !== '') {
+      const resolved = resolveNear(nearStr);
+      if (!resolved) {
+        throw new BadRequestException(
+          `near 위치를 찾을 수 없습니다: ${nearStr} ("위도,경도" 또는 도시명을 입력하세요)`,
+        );
+      }
+      near = resolved;
+    }
+    const radiusKm = radiusKmStr ? Number(radiusKmStr) : undefined;
+    if (
+      radiusKm !== undefined &&
+      !(Number.isFinite(radiusKm) && radiusKm > 0)
     ) {
+      throw new BadRequestException('radiusKm는 0보다 큰 숫자여야 합니다.');
+    }
+    if (radiusKm !== undefined && !near) {
+      throw new BadRequestException('radiusKm는 near와 함께 사용해야 합니다.');
+    }
+
+    if (sort !== undefined && !SORT_MODES.includes(sort as SortMode)) {
+      throw new BadRequestException(
+        `sort는 ${SORT_MODES.join(', ')} 중 하나여야 합니다.`,
+      );
+    }
+
+    let highlight: HighlightOptions | undefined;
+    if (highlightStr === 'true') {
+      highlight = {
+        startMarker: highlightStart ?? DEFAULT_HIGHLIGHT_OPTIONS.startMarker,
+        endMarker: highlightEnd ?? DEFAULT_HIGHLIGHT_OPTIONS.endMarker,
+        snippetWords: snippetWordsStr
+          ? Number(snippetWordsStr)
+          : DEFAULT_HIGHLIGHT_OPTIONS.snippetWords,
+      };
+      if (
+        !isValidMarker(highlight.startMarker) ||
+        !isValidMarker(highlight.endMarker)
+      ) {
+        throw new BadRequestException(
+          `highlightStart/highlightEnd는 큰따옴표 없이 ${MAX_MARKER_LENGTH}자 이하여야 합니다.`,
+        );
+      }
+      if (!Number.isInteger(highlight.snippetWords)) {
+        throw new BadRequestException('snippetWords는 정수여야 합니다.');
+      }
+    }
+
+    const facets = parseFacets(facetsStr);
+    if (!facets) {
       throw new BadRequestException(
-        'q, location, 또는 isEmailAvailable 중 하나는 반드시 제공해야 합니다.',
+        `facets는 all 또는 ${FACET_NAMES.join(', ')} 중에서 선택해야 합니다.`,
       );
     }
 
-    return this.jobsService.searchJobs({
+    return this.jobsService.trackedSearch({
       query: q,
       location,
       isEmailAvailable,
       limit,
       offset,
+      cursor,
+      includeCount,
+      jobFunction,
+      scoreBucket,
+      facets,
+      sort: sort as SortMode | undefined,
+      fuzzy,
+      highlight,
+      explain: explainStr === 'true',
+      collapse: collapseStr === 'true',
+      region,
+      country,
+      near,
+      radiusKm,
+      workplace: workplace as WorkplaceType[],
+      minSalary,
+      maxSalary,
+      seniority: seniority as SeniorityLevel[],
     });
   }
 
+  @Post('search/clicks')
+  @ApiOperation({
+    summary: 'Report a click on a search result',
+    description:
+      'Counts a click-through for the search identified by the searchId returned from /jobs/search.',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        searchId: { type: 'string', format: 'uuid' },
+      },
+      required: ['searchId'],
+    },
+  })
+  async recordSearchClick(@Body() body: { searchId?: string }) {
+    if (typeof body?.searchId !== 'string' || body.searchId.trim() === '') {
+      throw new BadRequestException('searchId는 필수입니다.');
+    }
+    return this.jobsService.recordSearchClick(body.searchId.trim());
+  }
+
+  @Get('analytics/top-queries')
+  @ApiOperation({
+    summary: 'Most searched queries',
+    description:
+      'First-page /jobs/search calls grouped by normalized query: searches, zero-result searches, clicks, average results and latency.',
+  })
+  @ApiQuery({ name: 'days', required: false, description: 'default 30' })
+  @ApiQuery({ name: 'limit', required: false, description: 'default 50' })
+  async topQueries(
+    @Query('days') daysStr?: string,
+    @Query('limit') limitStr?: string,
+  ) {
+    return this.jobsService.getSearchAnalytics(
+      'top',
+      this.parseReportOptions(daysStr, limitStr),
+    );
+  }
+
+  @Get('analytics/zero-result-queries')
+  @ApiOperation({
+    summary: 'Queries that returned no results',
+    description:
+      'With inJobTitles/synonymKeys showing whether the query is already covered by the job title catalog or a synonym group.',
+  })
+  @ApiQuery({ name: 'days', required: false, description: 'default 30' })
+  @ApiQuery({ name: 'limit', required: false, description: 'default 50' })
+  async zeroResultQueries(
+    @Query('days') daysStr?: string,
+    @Query('limit') limitStr?: string,
+  ) {
+    return this.jobsService.getSearchAnalytics(
+      'zero-results',
+      this.parseReportOptions(daysStr, limitStr),
+    );
+  }
+
+  @Get('analytics/no-click-queries')
+  @ApiOperation({
+    summary: 'Queries with results but no click-through',
+    description:
+      'With inJobTitles/synonymKeys showing whether the query is already covered by the job title catalog or a synonym group.',
+  })
+  @ApiQuery({ name: 'days', required: false, description: 'default 30' })
+  @ApiQuery({ name: 'limit', required: false, description: 'default 50' })
+  async noClickQueries(
+    @Query('days') daysStr?: string,
+    @Query('limit') limitStr?: string,
+  ) {
+    return this.jobsService.getSearchAnalytics(
+      'no-clicks',
+      this.parseReportOptions(daysStr, limitStr),
+    );
+  }
+
+  @Get('suggest')
+  @ApiOperation({
+    summary: 'Autocomplete job titles and locations',
+    description:
+      'Ranked suggestions from the job title catalog, role synonyms and the job_title/job_location values present in postings (weighted by frequency).',
+  })
+  @ApiQuery({ name: 'prefix', required: true, description: 'typed text' })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    description: 'max suggestions (default 10, max 50)',
+  })
+  async suggest(
+    @Query('prefix') prefix?: string,
+    @Query('limit') limitStr?: string,
+  ) {
+    if (!prefix || prefix.trim() === '') {
+      throw new BadRequestException('prefix는 필수입니다.');
+    }
+    const limit = limitStr ? Number(limitStr) : undefined;
+    return this.jobsService.suggest(prefix, limit);
+  }
+
+  @Get('vocabulary/synonyms')
+  @ApiOperation({ summary: 'List synonym groups' })
+  async listSynonymGroups() {
+    return this.jobsService.listSynonymGroups();
+  }
+
+  @Post('vocabulary/synonyms')
+  @ApiOperation({
+    summary: 'Add a synonym group',
+    description:
+      'One-way groups (bidirectional=false) expand query tokens containing key into terms. Two-way groups also expand any of their terms into the whole group.',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        key: { type: 'string' },
+        terms: { type: 'array', items: { type: 'string' } },
+        bidirectional: { type: 'boolean', default: false },
+      },
+      required: ['key', 'terms'],
+    },
+  })
+  async createSynonymGroup(
+    @Body() body: { key: string; terms: string[]; bidirectional?: boolean },
+  ) {
+    return this.jobsService.createSynonymGroup(body);
+  }
+
+  @Patch('vocabulary/synonyms/:id')
+  @ApiOperation({ summary: 'Update a synonym group' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        key: { type: 'string' },
+        terms: { type: 'array', items: { type: 'string' } },
+        bidirectional: { type: 'boolean' },
+      },
+    },
+  })
+  async updateSynonymGroup(
+    @Param('id') id: string,
+    @Body() body: { key?: string; terms?: string[]; bidirectional?: boolean },
+  ) {
+    return this.jobsService.updateSynonymGroup(id, body);
+  }
+
+  @Delete('vocabulary/synonyms/:id')
+  @ApiOperation({ summary: 'Remove a synonym group' })
+  async deleteSynonymGroup(@Param('id') id: string) {
+    return this.jobsService.deleteSynonymGroup(id);
+  }
+
+  @Get('vocabulary/titles')
+  @ApiOperation({ summary: 'List the job title catalog' })
+  async listJobTitles() {
+    return this.jobsService.listJobTitles();
+  }
+
+  @Post('vocabulary/titles')
+  @ApiOperation({ summary: 'Add a job title to the catalog' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { title: { type: 'string' } },
+      required: ['title'],
+    },
+  })
+  async addJobTitle(@Body() body: { title: string }) {
+    return this.jobsService.addJobTitle(body.title);
+  }
+
+  @Delete('vocabulary/titles/:id')
+  @ApiOperation({ summary: 'Remove a job title from the catalog' })
+  async deleteJobTitle(@Param('id') id: string) {
+    return this.jobsService.deleteJobTitle(id);
+  }
+
+  @Get('vocabulary/title-mappings')
+  @ApiOperation({ summary: 'List keyword to job title mappings' })
+  async listTitleMappings() {
+    return this.jobsService.listTitleMappings();
+  }
+
+  @Put('vocabulary/title-mappings')
+  @ApiOperation({
+    summary: 'Create or replace a title mapping',
+    description: 'Queries containing keyword also match the listed job titles.',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        keyword: { type: 'string' },
+        titles: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['keyword', 'titles'],
+    },
+  })
+  async upsertTitleMapping(
+    @Body() body: { keyword: string; titles: string[] },
+  ) {
+    return this.jobsService.upsertTitleMapping(body.keyword, body.titles);
+  }
+
+  @Delete('vocabulary/title-mappings/:id')
+  @ApiOperation({ summary: 'Remove a title mapping' })
+  async deleteTitleMapping(@Param('id') id: string) {
+    return this.jobsService.deleteTitleMapping(id);
+  }
+
+  @Get('vocabulary/export')
+  @ApiOperation({
+    summary: 'Export the search vocabulary',
+    description:
+      'Full dictionary (synonym groups, job titles, title mappings) as JSON, in the format accepted by vocabulary/import.',
+  })
+  async exportVocabulary() {
+    return this.jobsService.exportVocabulary();
+  }
+
+  @Post('vocabulary/import')
+  @ApiOperation({
+    summary: 'Import the search vocabulary',
+    description:
+      'Body is a dictionary as returned by vocabulary/export. mode=merge (default) upserts by key, mode=replace swaps the whole vocabulary.',
+  })
+  @ApiQuery({ name: 'mode', required: false, enum: ['merge', 'replace'] })
+  async importVocabulary(
+    @Body() dictionary: Record<string, unknown>,
+    @Query('mode') mode?: string,
+  ) {
+    if (mode !== undefined && mode !== 'merge' && mode !== 'replace') {
+      throw new BadRequestException('mode는 merge 또는 replace여야 합니다.');
+    }
+    return this.jobsService.importVocabulary(
+      dictionary,
+      (mode as 'merge' | 'replace') ?? 'merge',
+    );
+  }
+
+  @Post('import')
+  @UseInterceptors(
+    FileInterceptor('file', {
+      storage: diskStorage({ destination: importStorageDir() }),
+      limits: { fileSize: maxUploadBytes() },
+    }),
+  )
+  @ApiOperation({
+    summary: 'Import job postings from an uploaded file',
+    description: `CSV, NDJSON (one object per line), a JSON array of objects or XLSX (first sheet, header row first). The format is detected from the content unless given. Records need the id column, job_title and job_summary; the first record is checked before the import starts, then the file is imported in the background (see /jobs/import/:id/status). Text formats must be UTF-8. Size limit: IMPORT_MAX_UPLOAD_MB (default 4096), ${MAX_XLSX_UPLOAD_MB} MB for XLSX.`,
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', format: 'binary' },
+        format: {
+          type: 'string',
+          enum: [...IMPORT_FORMATS],
+          description: 'detected from the file when omitted',
+        },
+        mappingProfile: {
+          type: 'string',
+          description:
+            'id or name of a column mapping profile (see /jobs/import/mapping-profiles)',
+        },
+        batchSize: {
+          type: 'integer',
+          default: 30,
+          description: `records per batch (max ${MAX_IMPORT_BATCH_SIZE})`,
+        },
+        intervalMs: {
+          type: 'integer',
+          default: 5000,
+          description: `pause between batches (max ${MAX_IMPORT_INTERVAL_MS})`,
+        },
+        idColumn: { type: 'string', default: 'job_posting_id' },
+      },
+      required: ['file'],
+    },
+  })
+  async importFile(
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Body()
+    body: {
+      format?: string;
+      mappingProfile?: string;
+      batchSize?: string;
+      intervalMs?: string;
+      idColumn?: string;
+    },
+  ) {
+    if (!file) {
+      throw new BadRequestException(
+        'file 필드에 가져올 파일을 첨부해야 합니다.',
+      );
+    }
+    // Multer already stored the upload, so drop it when rejecting
+    const reject = async (message: string) => {
+      await unlink(file.path).catch(() => undefined);
+      return new BadRequestException(message);
+    };
+    const format = body.format?.trim().toLowerCase() || undefined;
+    if (format && !IMPORT_FORMATS.includes(format as ImportFormat)) {
+      throw await reject(
+        `format은 ${IMPORT_FORMATS.join(', ')} 중 하나여야 합니다.`,
+      );
+    }
+    const batchSize = body.batchSize ? Number(body.batchSize) : undefined;
+    if (
+      batchSize !== undefined &&
+      (!Number.isInteger(batchSize) ||
+        batchSize < 1 ||
+        batchSize > MAX_IMPORT_BATCH_SIZE)
+    ) {
+      throw await reject(
+        `batchSize는 1 이상 ${MAX_IMPORT_BATCH_SIZE} 이하의 정수여야 합니다.`,
+      );
+    }
+    const intervalMs = body.intervalMs ? Number(body.intervalMs) : undefined;
+    if (
+      intervalMs !== undefined &&
+      (!Number.isInteger(intervalMs) ||
+        intervalMs < 0 ||
+        intervalMs > MAX_IMPORT_INTERVAL_MS)
+    ) {
+      throw await reject(
+        `intervalMs는 0 이상 ${MAX_IMPORT_INTERVAL_MS} 이하의 정수여야 합니다.`,
+      );
+    }
+    const idColumn = body.idColumn?.trim() || undefined;
+    return this.jobsService.startFileImport(file, {
+      format: format as ImportFormat | undefined,
+      mappingProfile: body.mappingProfile?.trim() || undefined,
+      batchSize,
+      intervalMs,
+      idColumn,
+    });
+  }
+
+  @Post('import/dry-run')
+  @UseInterceptors(
+    FileInterceptor('file', {
+      storage: diskStorage({ destination: importStorageDir() }),
+      limits: { fileSize: maxUploadBytes() },
+    }),
+  )
+  @ApiOperation({
+    summary: 'Check an import file without importing it',
+    description:
+      'Reads every record like POST /jobs/import would (same format detection, mapping profile and id column) and reports how many would be inserted or update existing postings, plus per-record problems: missing_id, duplicate_id (within the file), no_email (none found in job_summary), invalid_score (Suitability Score not a number from 0 to 100) and parse_error. Nothing is written. report=csv downloads the report as CSV instead: summary counts (with complete and problemsTruncated), a blank line, then the problems.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiQuery({ name: 'report', required: false, enum: ['json', 'csv'] })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', format: 'binary' },
+        format: { type: 'string', enum: [...IMPORT_FORMATS] },
+        mappingProfile: { type: 'string' },
+        idColumn: { type: 'string', default: 'job_posting_id' },
+      },
+      required: ['file'],
+    },
+  })
+  async dryRunImport(
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Body()
+    body: { format?: string; mappingProfile?: string; idColumn?: string },
+    @Res({ passthrough: true }) res: Response,
+    @Query('report') report?: string,
+  ) {
+    if (!file) {
+      throw new BadRequestException(
+        'file 필드에 검사할 파일을 첨부해야 합니다.',
+      );
+    }
+    const reject = async (message: string) => {
+      await unlink(file.path).catch(() => undefined);
+      return new BadRequestException(message);
+    };
+    if (report !== undefined && report !== 'json' && report !== 'csv') {
+      throw await reject('report는 json 또는 csv여야 합니다.');
+    }
+    const format = body.format?.trim().toLowerCase() || undefined;
+    if (format && !IMPORT_FORMATS.includes(format as ImportFormat)) {
+      throw await reject(
+        `format은 ${IMPORT_FORMATS.join(', ')} 중 하나여야 합니다.`,
+      );
+    }
+
+    const result = await this.jobsService.dryRunFileImport(file, {
+      format: format as ImportFormat | undefined,
+      mappingProfile: body.mappingProfile?.trim() || undefined,
+      idColumn: body.idColumn?.trim() || undefined,
+    });
+    if (report !== 'csv') return result;
+
+    const baseName = (file.originalname || 'import')
+      .replace(/\.[^.]*$/, '')
+      .replace(/[^\w.-]+/g, '_');
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${baseName}-dry-run.csv"`,
+    );
+    return dryRunCsv(result);
+  }
+
   @Post('import/local')
   async importCsvFromLocal() {
     return this.jobsService.startLocalCsvImport();
   }
 
+  @Get('import')
+  @ApiOperation({
+    summary: 'List imports',
+    description:
+      'Past and running imports, newest first, with the same fields as /jobs/import/:id/status.',
+  })
+  @ApiQuery({ name: 'state', required: false, enum: IMPORT_STATES })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    description: `default ${DEFAULT_IMPORT_LIST_LIMIT}, max ${MAX_IMPORT_LIST_LIMIT}`,
+  })
+  @ApiQuery({ name: 'offset', required: false })
+  async listImports(
+    @Query('state') state?: string,
+    @Query('limit') limitStr?: string,
+    @Query('offset') offsetStr?: string,
+  ) {
+    if (state && !IMPORT_STATES.includes(state as ImportState)) {
+      throw new BadRequestException(
+        `state는 ${IMPORT_STATES.join(', ')} 중 하나여야 합니다.`,
+      );
+    }
+    const limit = limitStr ? Number(limitStr) : undefined;
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      throw new BadRequestException('limit은 1 이상의 정수여야 합니다.');
+    }
+    const offset = offsetStr ? Number(offsetStr) : undefined;
+    if (offset !== undefined && (!Number.isInteger(offset) || offset < 0)) {
+      throw new BadRequestException('offset은 0 이상의 정수여야 합니다.');
+    }
+    return this.jobsService.listImports({ state, limit, offset });
+  }
+
   @Get('import/:id/status')
+  @ApiOperation({
+    summary: 'Status of an import',
+    description:
+      'Read from the import_jobs table, so it survives restarts; imports interrupted by a restart resume from their last stored batch.',
+  })
   async importStatus(@Param('id') id: string): Promise<any> {
     return this.jobsService.getImportStatus(id);
   }
 
+  @Post('import/mapping-profiles')
+  @ApiOperation({
+    summary: 'Create a column mapping profile for imports',
+    description:
+      'Maps source columns (matched case-insensitively) to the keys stored in the posting data, with optional value transforms applied in order: trim, lowercase, uppercase, collapse_whitespace, strip_html, {type: scale, from, to}, {type: round, digits}, {type: map, values}, {type: default, value}. Select it with the mappingProfile field of POST /jobs/import.',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        description: { type: 'string' },
+        columns: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              source: { type: 'string' },
+              target: { type: 'string' },
+              transforms: { type: 'array', items: {} },
+            },
+            required: ['source', 'target'],
+          },
+          example: [
+            { source: 'id', target: 'job_posting_id' },
+            {
+              source: 'description',
+              target: 'job_summary',
+              transforms: ['strip_html', 'trim'],
+            },
+            {
+              source: 'score',
+              target: 'Suitability Score',
+              transforms: [{ type: 'scale', from: [0, 1], to: [0, 100] }],
+            },
+          ],
+        },
+        keepUnmapped: {
+          type: 'boolean',
+          default: true,
+          description: 'keep columns without a mapping under their own name',
+        },
+      },
+      required: ['name', 'columns'],
+    },
+  })
+  async createMappingProfile(@Body() body: MappingProfileInput) {
+    return this.jobsService.createMappingProfile(body);
+  }
+
+  @Get('import/mapping-profiles')
+  @ApiOperation({ summary: 'List column mapping profiles' })
+  async listMappingProfiles() {
+    return this.jobsService.listMappingProfiles();
+  }
+
+  @Get('import/mapping-profiles/:idOrName')
+  @ApiOperation({ summary: 'Get a column mapping profile by id or name' })
+  async getMappingProfile(@Param('idOrName') idOrName: string) {
+    return this.jobsService.getMappingProfile(idOrName);
+  }
+
+  @Patch('import/mapping-profiles/:id')
+  @ApiOperation({
+    summary: 'Update a column mapping profile',
+    description: 'columns replaces the whole mapping list.',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        description: { type: 'string' },
+        columns: { type: 'array', items: { type: 'object' } },
+        keepUnmapped: { type: 'boolean' },
+      },
+    },
+  })
+  async updateMappingProfile(
+    @Param('id') id: string,
+    @Body() body: MappingProfileInput,
+  ) {
+    return this.jobsService.updateMappingProfile(id, body);
+  }
+
+  @Delete('import/mapping-profiles/:id')
+  @ApiOperation({ summary: 'Delete a column mapping profile' })
+  async deleteMappingProfile(@Param('id') id: string) {
+    return this.jobsService.deleteMappingProfile(id);
+  }
+
   @Post('fix-scores')
   @ApiOperation({
     summary: 'Fix decimal scores to integer scores',
@@ -106,6 +966,134 @@ export class JobsController {
     return this.jobsService.getFixScoresStatus(id);
   }
 
+  @Post('enrichment/backfill')
+  @ApiOperation({
+    summary: 'Backfill derived posting columns',
+    description:
+      'Recompute parsed location, workplace type, salary, seniority and duplicate cluster for postings enriched by an older parser version (or all postings with force=true). Runs in the background, 200 records at a time.',
+  })
+  @ApiQuery({ name: 'force', required: false, type: Boolean })
+  async enrichmentBackfill(@Query('force') force?: string) {
+    return this.jobsService.startEnrichmentBackfill(force === 'true');
+  }
+
+  @Get('enrichment/backfill/:id/status')
+  @ApiOperation({
+    summary: 'Get enrichment backfill status',
+  })
+  async enrichmentBackfillStatus(@Param('id') id: string): Promise<any> {
+    return this.jobsService.getEnrichmentBackfillStatus(id);
+  }
+
+  @Post('saved-searches')
+  @ApiOperation({
+    summary: 'Save a search with email alerts',
+    description:
+      'Stores /jobs/search filters for an email address. Postings imported afterwards that match are emailed as a digest: after each import (instant) or at most once a day/week.',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        email: { type: 'string' },
+        name: { type: 'string' },
+        frequency: {
+          type: 'string',
+          enum: ALERT_FREQUENCIES,
+          default: 'daily',
+        },
+        params: {
+          type: 'object',
+          description:
+            'Search filters with the same names as /jobs/search (query, location, region, country, near, radiusKm, workplace, seniority, minSalary, maxSalary, jobFunction, scoreBucket, isEmailAvailable)',
+          example: {
+            query: 'nurse',
+            location: 'Toronto',
+            workplace: ['remote'],
+          },
+        },
+      },
+      required: ['email', 'params'],
+    },
+  })
+  async createSavedSearch(@Body() body: SavedSearchInput) {
+    return this.jobsService.createSavedSearch(body);
+  }
+
+  @Get('saved-searches')
+  @ApiOperation({
+    summary: 'List saved searches of an email address',
+    description: 'Unsubscribe tokens are not included.',
+  })
+  @ApiQuery({ name: 'email', required: true, type: String })
+  async listSavedSearches(@Query('email') email?: string) {
+    if (!email || email.trim() === '') {
+      throw new BadRequestException('email 값이 필요합니다.');
+    }
+    return this.jobsService.listSavedSearches(email);
+  }
+
+  @Get('saved-searches/unsubscribe/:token')
+  @ApiOperation({
+    summary: 'Unsubscribe from a saved search digest',
+    description: 'Target of the link in every digest email.',
+  })
+  async unsubscribeSavedSearch(@Param('token') token: string) {
+    return this.jobsService.unsubscribeSavedSearch(token);
+  }
+
+  @Post('saved-searches/run')
+  @ApiOperation({
+    summary: 'Run saved search alerts now',
+    description:
+      'Checks every saved search that is due (as the hourly timer does, SAVED_SEARCH_TICK_MINUTES) and sends digests.',
+  })
+  async runSavedSearchAlerts() {
+    return this.jobsService.runSavedSearchAlerts('schedule');
+  }
+
+  @Patch('saved-searches/:id')
+  @ApiOperation({
+    summary: 'Update a saved search (name, frequency, filters, active)',
+    description:
+      'Requires the unsubscribe token of the search (returned on create and part of the unsubscribe link in every digest).',
+  })
+  @ApiQuery({ name: 'token', required: true, type: String })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        frequency: { type: 'string', enum: ALERT_FREQUENCIES },
+        params: { type: 'object' },
+        active: { type: 'boolean' },
+      },
+    },
+  })
+  async updateSavedSearch(
+    @Param('id') id: string,
+    @Query('token') token: string | undefined,
+    @Body() body: SavedSearchInput,
+  ) {
+    if (body.active !== undefined && typeof body.active !== 'boolean') {
+      throw new BadRequestException('active는 boolean 값이어야 합니다.');
+    }
+    return this.jobsService.updateSavedSearch(id, token, body);
+  }
+
+  @Delete('saved-searches/:id')
+  @ApiOperation({
+    summary: 'Delete a saved search',
+    description: 'Requires the unsubscribe token of the search.',
+  })
+  @ApiQuery({ name: 'token', required: true, type: String })
+  async deleteSavedSearch(
+    @Param('id') id: string,
+    @Query('token') token?: string,
+  ) {
+    return this.jobsService.deleteSavedSearch(id, token);
+  }
+
   @Post('apply')
   @UseInterceptors(FilesInterceptor('files'))
   @ApiOperation({
@@ -195,4 +1183,39 @@ export class JobsController {
       emailTestMode,
     );
   }
+
+  // Declared last so the fixed routes above take precedence
+  @Get(':job_posting_id/similar')
+  @ApiOperation({
+    summary: 'Similar jobs for a posting',
+    description:
+      'Postings resembling the given one: shared title words (expanded with synonyms), same job_function, nearby location and overlapping job_summary vocabulary. Exact duplicates (same title, location and summary) are excluded.',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    description: 'max results (default 10, max 50)',
+  })
+  async similarJobs(
+    @Param('job_posting_id') jobPostingId: string,
+    @Query('limit') limitStr?: string,
+  ) {
+    const limit = limitStr ? Number(limitStr) : undefined;
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      throw new BadRequestException('limit은 1 이상의 정수여야 합니다.');
+    }
+    return this.jobsService.findSimilarJobs(jobPostingId, limit);
+  }
+
+  private parseReportOptions(daysStr?: string, limitStr?: string) {
+    const days = daysStr ? Number(daysStr) : undefined;
+    if (days !== undefined && (!Number.isInteger(days) || days < 1)) {
+      throw new BadRequestException('days는 1 이상의 정수여야 합니다.');
+    }
+    const limit = limitStr ? Number(limitStr) : undefined;
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      throw new BadRequestException('limit은 1 이상의 정수여야 합니다.');
+    }
+    return { days, limit };
+  }
 }
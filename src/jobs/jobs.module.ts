@@ -8,16 +8,46 @@ import { GoogleJobsService } from './providers/google-jobs.service';
 import { JobBoardService } from './providers/job-board.service';
 import { ImportService } from './providers/import.service';
 import { EmailService } from './providers/email.service';
+import { VocabularyService } from './providers/vocabulary.service';
+import { EnrichmentService } from './providers/enrichment.service';
+import { SavedSearchService } from './providers/saved-search.service';
+import { SearchAnalyticsService } from './providers/search-analytics.service';
+import { MappingProfileService } from './providers/mapping-profile.service';
 import { JobPosting } from '../entities/job-posting.entity';
+import { SynonymGroup } from '../entities/synonym-group.entity';
+import { JobTitle } from '../entities/job-title.entity';
+import { TitleMapping } from '../entities/title-mapping.entity';
+import { SavedSearch } from '../entities/saved-search.entity';
+import { SearchEvent } from '../entities/search-event.entity';
+import { ImportMappingProfile } from '../entities/import-mapping-profile.entity';
+import { ImportJob } from '../entities/import-job.entity';
 
 @Module({
-  imports: [HttpModule, ConfigModule, TypeOrmModule.forFeature([JobPosting])],
+  imports: [
+    HttpModule,
+    ConfigModule,
+    TypeOrmModule.forFeature([
+      JobPosting,
+      SynonymGroup,
+      JobTitle,
+      TitleMapping,
+      SavedSearch,
+      SearchEvent,
+      ImportMappingProfile,
+      ImportJob,
+    ]),
+  ],
   controllers: [JobsController],
   providers: [
     GoogleJobsService,
     JobBoardService,
     ImportService,
     EmailService,
+    VocabularyService,
+    EnrichmentService,
+    SavedSearchService,
+    SearchAnalyticsService,
+    MappingProfileService,
     JobsService,
   ],
 })
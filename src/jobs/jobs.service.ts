@@ -1,260 +1,205 @@
-import { Injectable, BadRequestException, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  BadRequestException,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, In } from 'typeorm';
+import { Repository, In, QueryRunner } from 'typeorm';
 import { GoogleJobsService } from './providers/google-jobs.service';
 import { JobBoardService } from './providers/job-board.service';
 import { ImportService } from './providers/import.service';
 import { EmailService } from './providers/email.service';
+import {
+  SynonymGroupInput,
+  VocabularyService,
+} from './providers/vocabulary.service';
+import { EnrichmentService } from './providers/enrichment.service';
+import {
+  SavedSearchInput,
+  SavedSearchService,
+} from './providers/saved-search.service';
+import { SearchAnalyticsService } from './providers/search-analytics.service';
+import {
+  MappingProfileInput,
+  MappingProfileService,
+} from './providers/mapping-profile.service';
 import { JobPosting } from '../entities/job-posting.entity';
 import { expandTokens } from './search/synonyms';
-
-// Available job titles from frontend
-const JOB_TITLES = [
-  // Software & Engineering
-  'Software Engineer',
-  'Frontend Developer',
-  'Backend Developer',
-  'Full Stack Developer',
-  'DevOps Engineer',
-  'Mobile Developer',
-  'iOS Developer',
-  'Android Developer',
-  'Data Engineer',
-  'Cloud Engineer',
-  'Site Reliability Engineer',
-  'QA Engineer',
-  'Systems Architect',
-  'Embedded Systems Engineer',
-  'Game Developer',
-  'Machine Learning Engineer',
-  // Data & Analytics
-  'Data Scientist',
-  'Data Analyst',
-  'Business Analyst',
-  'Business Intelligence Developer',
-  'AI Researcher',
-  'Statistician',
-  'Database Administrator',
-  // Product & Design
-  'Product Manager',
-  'Project Manager',
-  'Product Owner',
-  'Scrum Master',
-  'UX Designer',
-  'UI Designer',
-  'Product Designer',
-  'Graphic Designer',
-  'Web Designer',
-  'Art Director',
-  'Creative Director',
-  // Marketing & Sales
-  'Marketing Manager',
-  'Social Media Manager',
-  'Content Strategist',
-  'SEO Specialist',
-  'Digital Marketing Specialist',
-  'Sales Representative',
-  'Account Manager',
-  'Account Executive',
-  'Customer Success Manager',
-  'Sales Engineer',
-  // IT & Support
-  'IT Support Specialist',
-  'System Administrator',
-  'Network Engineer',
-  'Cybersecurity Analyst',
-  'Information Security Manager',
-  'Help Desk Technician',
-  // HR & Operations
-  'Human Resources Manager',
-  'Recruiter',
-  'Talent Acquisition Specialist',
-  'Operations Manager',
-  'Office Manager',
-  'Executive Assistant',
-  // Finance
-  'Financial Analyst',
-  'Accountant',
-  'Auditor',
-  'Controller',
-  'Finance Manager',
-  // Healthcare & Nursing
-  'Practical Nurse',
-  'Registered Nurse',
-  'Nurse Practitioner',
-  'Nurse Manager',
-  'Nurse Educator',
-  'Nurse Administrator',
-  'Nurse Consultant',
-  'Nurse Director',
-  'Nurse Leader',
-  'Nurse Specialist',
-];
-
-/**
- * Find related job titles based on search query
- * Uses keyword matching to find relevant job titles
- */
-function findRelatedJobTitles(query: string): string[] {
-  const queryLower = query.toLowerCase().trim();
-  const related: string[] = [];
-
-  // Direct match
-  for (const title of JOB_TITLES) {
-    if (title.toLowerCase().includes(queryLower)) {
-      related.push(title);
-    }
-  }
-
-  // Keyword-based matching
-  const keywords = queryLower.split(/\s+/);
-  for (const title of JOB_TITLES) {
-    const titleLower = title.toLowerCase();
-    // Check if any keyword matches significant parts of the title
-    for (const keyword of keywords) {
-      if (keyword.length >= 3 && titleLower.includes(keyword)) {
-        if (!related.includes(title)) {
-          related.push(title);
-        }
-      }
-    }
-  }
-
-  // Special mappings for common searches
-  const specialMappings: Record<string, string[]> = {
-    software: [
-      'Software Engineer',
-      'Frontend Developer',
-      'Backend Developer',
-      'Full Stack Developer',
-      'DevOps Engineer',
-      'Mobile Developer',
-      'iOS Developer',
-      'Android Developer',
-      'Data Engineer',
-      'Cloud Engineer',
-      'Site Reliability Engineer',
-      'QA Engineer',
-      'Systems Architect',
-      'Embedded Systems Engineer',
-      'Game Developer',
-      'Machine Learning Engineer',
-    ],
-    engineer: [
-      'Software Engineer',
-      'DevOps Engineer',
-      'Data Engineer',
-      'Cloud Engineer',
-      'Site Reliability Engineer',
-      'QA Engineer',
-      'Systems Architect',
-      'Embedded Systems Engineer',
-      'Machine Learning Engineer',
-      'Sales Engineer',
-      'Network Engineer',
-    ],
-    developer: [
-      'Frontend Developer',
-      'Backend Developer',
-      'Full Stack Developer',
-      'Mobile Developer',
-      'iOS Developer',
-      'Android Developer',
-      'Game Developer',
-      'Business Intelligence Developer',
-    ],
-    frontend: [
-      'Frontend Developer',
-      'Full Stack Developer',
-      'Web Designer',
-      'UI Designer',
-      'UX Designer',
-    ],
-    backend: [
-      'Backend Developer',
-      'Full Stack Developer',
-      'Software Engineer',
-      'Data Engineer',
-    ],
-    nurse: [
-      'Practical Nurse',
-      'Registered Nurse',
-      'Nurse Practitioner',
-      'Nurse Manager',
-      'Nurse Educator',
-      'Nurse Administrator',
-      'Nurse Consultant',
-      'Nurse Director',
-      'Nurse Leader',
-      'Nurse Specialist',
-    ],
-    nursing: [
-      'Practical Nurse',
-      'Registered Nurse',
-      'Nurse Practitioner',
-      'Nurse Manager',
-      'Nurse Educator',
-      'Nurse Administrator',
-      'Nurse Consultant',
-      'Nurse Director',
-      'Nurse Leader',
-      'Nurse Specialist',
-    ],
-    data: [
-      'Data Scientist',
-      'Data Analyst',
-      'Data Engineer',
-      'Business Analyst',
-      'Business Intelligence Developer',
-      'Statistician',
-      'Database Administrator',
-    ],
-    product: ['Product Manager', 'Product Owner', 'Product Designer'],
-    design: [
-      'UX Designer',
-      'UI Designer',
-      'Product Designer',
-      'Graphic Designer',
-      'Web Designer',
-      'Art Director',
-      'Creative Director',
-    ],
-    marketing: [
-      'Marketing Manager',
-      'Social Media Manager',
-      'Content Strategist',
-      'SEO Specialist',
-      'Digital Marketing Specialist',
-    ],
-    sales: [
-      'Sales Representative',
-      'Account Manager',
-      'Account Executive',
-      'Customer Success Manager',
-      'Sales Engineer',
-    ],
-  };
-
-  // Check special mappings
-  for (const [key, titles] of Object.entries(specialMappings)) {
-    if (queryLower.includes(key)) {
-      for (const title of titles) {
-        if (!related.includes(title)) {
-          related.push(title);
-        }
-      }
-    }
-  }
-
-  return related;
-}
+import {
+  buildTsQuery,
+  LOCATION_FILTER_WEIGHT,
+  RANK_SCALE,
+  RANK_WEIGHTS,
+  SEARCH_VECTOR_INDEX,
+  TITLE_PHRASE_WEIGHT,
+  TITLE_TRGM_INDEX,
+  LOCATION_TRGM_INDEX,
+  FUZZY_TITLE_WEIGHT,
+  toLexemes,
+} from './search/full-text';
+import {
+  hasQuerySyntax,
+  parseQuery,
+  QuerySyntaxError,
+} from './search/query-parser';
+import { compileQuery, CompiledQuery } from './search/query-compiler';
+import { headlineOptions, HighlightOptions } from './search/highlight';
+import {
+  matchesPrefix,
+  rankSuggestions,
+  SuggestionCandidate,
+} from './search/suggest';
+import { decodeCursor, encodeCursor } from './search/cursor';
+import { correctTokens, DEFAULT_FUZZY_THRESHOLD } from './search/trigram';
+import {
+  BlendWeights,
+  DEFAULT_BLEND_WEIGHTS,
+  SortMode,
+  sortKeysFor,
+} from './search/sort';
+import {
+  EMAIL_AVAILABLE_EXPR,
+  FACET_EXPRESSIONS,
+  FACET_VALUE_LIMIT,
+  FacetName,
+  facetFilter,
+  scoreBucketCondition,
+} from './search/facets';
+import { findRelatedJobTitles } from './search/job-titles';
+import {
+  BOUNDING_BOX_CONDITION,
+  boundingBox,
+  Coordinates,
+  DEFAULT_RADIUS_KM,
+  DISTANCE_KM_EXPR,
+  MAX_RADIUS_KM,
+} from './search/geo';
+import {
+  findRegion,
+  parseLocation,
+  resolveCountry,
+} from './enrichment/location';
+import { WorkplaceType } from './enrichment/workplace';
+import { SeniorityLevel } from './enrichment/seniority';
+import {
+  explainTerms,
+  groupTermMatches,
+  matchedOrdinalsSql,
+  parseOrdinals,
+  ScoreComponent,
+  termFieldChecks,
+} from './search/explain';
+import {
+  DEFAULT_SIMILAR_LIMIT,
+  DUPLICATE_CONDITION,
+  keywordShareSql,
+  MAX_SIMILAR_LIMIT,
+  SIMILAR_FUNCTION_WEIGHT,
+  SIMILAR_LOCATION_WEIGHT,
+  SIMILAR_NEARBY_KM,
+  SIMILAR_SUMMARY_WEIGHT,
+  SIMILAR_TITLE_WEIGHT,
+  summaryKeywords,
+  titleTokens,
+} from './search/similar';
+import {
+  AnalyticsReport,
+  normalizeSearchText,
+  searchFilters,
+} from './search/analytics';
+import {
+  collapseCondition,
+  SIBLING_ALIAS,
+  siblingConditions,
+} from './search/collapse';
+import {
+  hasHangul,
+  koreanEquivalents,
+  koreanTermsWithPrefix,
+  translateKoreanQuery,
+} from './search/korean';
+import { HEADER_SAMPLE_BYTES, importStorageDir } from './imports/csv-header';
+import {
+  detectImportFormat,
+  ImportFormat,
+  MAX_XLSX_UPLOAD_MB,
+  validateImportHeader,
+} from './imports/formats';
+import { MappingRules } from './imports/mapping';
+import { DIGEST_RESULT_LIMIT } from './alerts/saved-search';
+import { DigestPosting } from './alerts/digest';
 import { randomUUID } from 'crypto';
+import { mkdir, open, readFile, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+// Every sort mode uses three keys (primary, secondary, id)
+const SORT_KEY_COUNT = 3;
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Columns selected for result rows (see toJobResult)
+const RESULT_COLUMNS = [
+  'jp.id',
+  'jp.job_posting_id',
+  'jp.data',
+  'jp.created_at',
+  'jp.isEmailAvailable',
+  'jp.resume_email',
+  'jp.location_city',
+  'jp.location_region',
+  'jp.location_country',
+  'jp.latitude',
+  'jp.longitude',
+  'jp.workplace_type',
+  'jp.workplace_confidence',
+  'jp.salary_min',
+  'jp.salary_max',
+  'jp.salary_currency',
+  'jp.salary_period',
+  'jp.salary_annual_min',
+  'jp.salary_annual_max',
+  'jp.seniority',
+  'jp.cluster_id',
+];
 
 export interface JobSearchParams {
   query?: string;
   location?: string;
   isEmailAvailable?: boolean;
+  jobFunction?: string;
+  scoreBucket?: string;
+  // Province/state code or name (ON, Ontario)
+  region?: string;
+  // ISO code or name (CA, Canada)
+  country?: string;
+  near?: Coordinates;
+  radiusKm?: number;
+  workplace?: WorkplaceType[];
+  seniority?: SeniorityLevel[];
+  // Annualized pay bounds, in the posting's own currency
+  minSalary?: number;
+  maxSalary?: number;
+}
+
+export interface JobSearchOptions extends JobSearchParams {
+  limit?: number;
+  offset?: number;
+  cursor?: string;
+  includeCount?: boolean;
+  facets?: FacetName[];
+  sort?: SortMode;
+  fuzzy?: boolean;
+  highlight?: HighlightOptions;
+  explain?: boolean;
+  // One result per near-duplicate cluster, siblings listed on it
+  collapse?: boolean;
+  // Imported within (createdAfter, createdBefore], used by saved search alerts
+  createdAfter?: Date;
+  createdBefore?: Date;
 }
 
 interface FixScoresStatus {
@@ -270,9 +215,11 @@ interface FixScoresStatus {
 }
 
 @Injectable()
-export class JobsService {
+export class JobsService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(JobsService.name);
   private readonly fixScoresStatuses = new Map<string, FixScoresStatus>();
+  private alertTimer: NodeJS.Timeout | null = null;
+  private alertsRunning = false;
 
   constructor(
     @InjectRepository(JobPosting)
@@ -282,131 +229,432 @@ export class JobsService {
     private readonly importer: ImportService,
     private readonly emailService: EmailService,
     private readonly configService: ConfigService,
+    private readonly vocabulary: VocabularyService,
+    private readonly enrichment: EnrichmentService,
+    private readonly savedSearches: SavedSearchService,
+    private readonly searchAnalytics: SearchAnalyticsService,
+    private readonly mappingProfiles: MappingProfileService,
   ) {}
 
-  async searchJobs(
-    params: JobSearchParams & { limit?: number; offset?: number },
-  ) {
+  /**
+   * Create the GIN indexes backing full-text and trigram search.
+   * TypeORM synchronize cannot express GIN indexes, so it is created here instead.
+   */
+  async onModuleInit() {
+    try {
+      await this.jobPostingRepo.query(
+        `CREATE INDEX IF NOT EXISTS "${SEARCH_VECTOR_INDEX}" ON job_postings USING GIN (search_vector)`,
+      );
+    } catch (err: any) {
+      this.logger.warn(
+        `Failed to create search index ${SEARCH_VECTOR_INDEX}: ${err?.message}`,
+      );
+    }
+
+    // pg_trgm powers typo-tolerant title matching and ILIKE lookups (suggestions)
+    try {
+      await this.jobPostingRepo.query('CREATE EXTENSION IF NOT EXISTS pg_trgm');
+      await this.jobPostingRepo.query(
+        `CREATE INDEX IF NOT EXISTS "${TITLE_TRGM_INDEX}" ON job_postings USING GIN ((data->>'job_title') gin_trgm_ops)`,
+      );
+      await this.jobPostingRepo.query(
+        `CREATE INDEX IF NOT EXISTS "${LOCATION_TRGM_INDEX}" ON job_postings USING GIN ((data->>'job_location') gin_trgm_ops)`,
+      );
+    } catch (err: any) {
+      this.logger.warn(`Failed to set up pg_trgm indexes: ${err?.message}`);
+    }
+
+    // Saved search alerts: after every import that added postings, and on a timer
+    // for daily/weekly digests
+    this.importer.onImportCompleted((status) => {
+      if (status.inserted > 0) return this.runSavedSearchAlerts('import');
+    });
+    const tickMinutes = Number(
+      this.configService.get<string>('SAVED_SEARCH_TICK_MINUTES') ?? 60,
+    );
+    if (Number.isFinite(tickMinutes) && tickMinutes > 0) {
+      this.alertTimer = setInterval(
+        () => {
+          // A failing tick (database down) is logged; the next one retries
+          void this.runSavedSearchAlerts('schedule').catch((err: any) =>
+            this.logger.error(`Saved search alerts failed: ${err?.message}`),
+          );
+        },
+        tickMinutes * 60 * 1000,
+      );
+      this.alertTimer.unref();
+    }
+  }
+
+  onModuleDestroy() {
+    if (this.alertTimer) clearInterval(this.alertTimer);
+    this.alertTimer = null;
+  }
+
+  async searchJobs(params: JobSearchOptions) {
     const limit = Math.min(Math.max(params.limit ?? 25, 1), 100);
     const offset = Math.max(params.offset ?? 0, 0);
 
+    // Rank by relevance when there is something to be relevant to
+    const sort: SortMode =
+      params.sort ?? (params.query ? 'relevance' : 'newest');
+
+    // Keyset pagination: cursor replaces offset, and count is skipped unless asked for
+    const cursor = params.cursor
+      ? decodeCursor(params.cursor, sort, SORT_KEY_COUNT)
+      : null;
+    if (
+      params.cursor &&
+      (!cursor || !UUID_PATTERN.test(String(cursor.keys[SORT_KEY_COUNT - 1])))
+    ) {
+      throw new BadRequestException('유효하지 않은 cursor 값입니다.');
+    }
+    if (cursor && offset > 0) {
+      throw new BadRequestException(
+        'cursor와 offset은 함께 사용할 수 없습니다.',
+      );
+    }
+    const includeCount = params.includeCount ?? !cursor;
+
     const rawQuery = (params.query ?? '').trim();
     const rawLocation = (params.location ?? '').trim();
     const isEmailAvailable = params.isEmailAvailable;
+    const jobFunction = (params.jobFunction ?? '').trim();
+    const scoreBucket = (params.scoreBucket ?? '').trim();
+    const regionInput = (params.region ?? '').trim();
+    const countryInput = (params.country ?? '').trim();
+    const near = params.near;
+    const workplace = params.workplace ?? [];
+    const seniority = params.seniority ?? [];
+    const { minSalary, maxSalary } = params;
+    if (
+      minSalary !== undefined &&
+      maxSalary !== undefined &&
+      minSalary > maxSalary
+    ) {
+      throw new BadRequestException(
+        'minSalary는 maxSalary보다 클 수 없습니다.',
+      );
+    }
 
-    // If nothing provided, return empty result to avoid full table scan
-    if (!rawQuery && !rawLocation && isEmailAvailable === undefined) {
-      return { count: 0, results: [] };
+    const scoreBucketSql = scoreBucket
+      ? scoreBucketCondition(scoreBucket)
+      : null;
+    if (scoreBucket && !scoreBucketSql) {
+      throw new BadRequestException(
+        `유효하지 않은 scoreBucket 값입니다: ${scoreBucket}`,
+      );
     }
 
-    // Find related job titles based on search query
-    const relatedJobTitles = rawQuery ? findRelatedJobTitles(rawQuery) : [];
-    this.logger.debug(
-      `Found ${relatedJobTitles.length} related job titles for query: ${rawQuery}`,
+    const country = countryInput ? resolveCountry(countryInput) : null;
+    if (countryInput && !country) {
+      throw new BadRequestException(
+        `유효하지 않은 country 값입니다: ${countryInput}`,
+      );
+    }
+    const region = regionInput ? findRegion(regionInput, country?.code) : null;
+    if (regionInput && !region) {
+      throw new BadRequestException(
+        `유효하지 않은 region 값입니다: ${regionInput}`,
+      );
+    }
+    const radiusKm = Math.min(
+      Math.max(params.radiusKm ?? DEFAULT_RADIUS_KM, 1),
+      MAX_RADIUS_KM,
     );
 
+    // If nothing provided, return empty result to avoid full table scan
+    if (
+      !rawQuery &&
+      !rawLocation &&
+      isEmailAvailable === undefined &&
+      !jobFunction &&
+      !scoreBucket &&
+      !region &&
+      !country &&
+      !near &&
+      workplace.length === 0 &&
+      seniority.length === 0 &&
+      minSalary === undefined &&
+      maxSalary === undefined
+    ) {
+      return { count: 0, results: [], nextCursor: null };
+    }
+
+    // Korean role words are searched as the English terms postings use
+    // ("소프트웨어 개발자" -> software developer); unknown Hangul words stay as typed
+    const translation = translateKoreanQuery(rawQuery);
+    const searchQuery = translation?.query ?? rawQuery;
+
+    // Advanced syntax (phrases, exclusions, OR/AND, field scopes) compiles into its own WHERE condition
+    const advanced =
+      searchQuery && hasQuerySyntax(searchQuery)
+        ? this.compileAdvancedQuery(searchQuery)
+        : null;
+    // Text used for relevance scoring: the plain query, or the non-excluded terms of an advanced one
+    const scoringQuery = advanced
+      ? advanced.positiveTerms.join(' ')
+      : searchQuery;
+
+    // Synonyms, titles and mappings from the DB-backed vocabulary cache
+    const vocabulary = this.vocabulary.getVocabulary();
+
     // Tokenize query and expand synonyms for broader matching
-    const baseTokens = rawQuery
-      ? rawQuery
+    const baseTokens = scoringQuery
+      ? scoringQuery
           .toLowerCase()
-          .split(/[^a-z0-9+]+/i)
+          .split(/[^\p{L}\p{N}+]+/u)
           .map((t) => t.trim())
           .filter(Boolean)
       : [];
-    const tokens = expandTokens(baseTokens);
+
+    // Typo tolerance: misspelled words are corrected against the job vocabulary.
+    // Original tokens are kept so correctly spelled rare words still match.
+    const fuzzyThreshold = this.getFuzzyThreshold();
+    const correction =
+      params.fuzzy !== false && !advanced && baseTokens.length > 0
+        ? correctTokens(
+            baseTokens,
+            this.vocabulary.getCorrectionWords(),
+            fuzzyThreshold,
+          )
+        : null;
+    const correctedQuery = correction?.correctedQuery ?? null;
+    // Other English terms of translated Korean words, and the Korean terms for
+    // English words (postings written in Korean)
+    const translatedTokens = [
+      ...(advanced ? [] : (translation?.terms ?? [])),
+      ...koreanEquivalents([...baseTokens, ...(correction?.tokens ?? [])]),
+    ];
+    const tokens = Array.from(
+      new Set([
+        ...expandTokens(
+          Array.from(
+            new Set([
+              ...baseTokens,
+              ...(correction?.tokens ?? []),
+              ...translatedTokens,
+            ]),
+          ),
+          vocabulary.synonyms,
+        ),
+        ...translatedTokens,
+      ]),
+    );
+
+    // Words that are neither known nor correctable fall back to pg_trgm similarity on job_title
+    const fuzzyTitleQuery =
+      correction && correction.unknownTokens.length > 0 ? searchQuery : '';
+
+    // Find related job titles based on search query (and its corrected form)
+    const relatedJobTitles =
+      searchQuery && !advanced
+        ? Array.from(
+            new Set([
+              ...this.findRelatedTitles(
+                searchQuery,
+                params.fuzzy !== false ? fuzzyThreshold : undefined,
+              ),
+              ...(correctedQuery ? this.findRelatedTitles(correctedQuery) : []),
+            ]),
+          )
+        : [];
+    this.logger.debug(
+      `Found ${relatedJobTitles.length} related job titles for query: ${searchQuery}` +
+        (correctedQuery ? ` (corrected: ${correctedQuery})` : ''),
+    );
 
     // Build dynamic score and where clauses
     const qb = this.jobPostingRepo.createQueryBuilder('jp');
 
     // Select entity columns
-    qb.select([
-      'jp.id',
-      'jp.job_posting_id',
-      'jp.data',
-      'jp.created_at',
-      'jp.isEmailAvailable',
-      'jp.resume_email',
-    ]);
+    qb.select(RESULT_COLUMNS);
+
+    // Location text also matches the parsed city (or region) of each posting,
+    // so "Toronto" finds "Toronto, ON" and "GTA" postings alike
+    const parsedLocation = rawLocation ? parseLocation(rawLocation) : null;
+    let locationSql = `(jp.data->>'job_location') ILIKE :locFilter`;
+    if (parsedLocation?.city && parsedLocation.latitude !== null) {
+      locationSql = `(${locationSql} OR (jp.location_city = :locCity AND jp.location_country = :locCountry))`;
+    } else if (parsedLocation?.region && !parsedLocation.city) {
+      locationSql = `(${locationSql} OR (jp.location_region = :locRegion AND jp.location_country = :locCountry))`;
+    }
 
-    // Build a single score expression (cannot reuse SELECT aliases in Postgres)
-    const scoreExprParts: string[] = [];
+    // Build a single score expression (cannot reuse SELECT aliases in Postgres).
+    // Components are kept by name so explain mode can report each contribution.
+    const scoreComponents: ScoreComponent[] = [];
+
+    // Whole query as a title phrase (legacy phrase weight)
+    const phraseQuery =
+      searchQuery && !advanced ? buildTsQuery([searchQuery], 'A') : '';
+    if (phraseQuery) {
+      qb.setParameter('qPhrase', phraseQuery);
+      scoreComponents.push({
+        name: 'titlePhrase',
+        weight: TITLE_PHRASE_WEIGHT,
+        sql: `(CASE WHEN jp.search_vector @@ to_tsquery('english', :qPhrase) THEN ${TITLE_PHRASE_WEIGHT} ELSE 0 END)`,
+      });
+    }
 
-    if (rawQuery) {
-      qb.setParameter('qPhrase', `%${rawQuery}%`);
-      scoreExprParts.push(
-        `(CASE WHEN (jp.data->>'job_title') ILIKE :qPhrase THEN 5 ELSE 0 END)`,
-      );
+    // ts_rank averages over query terms, so multiply back by the term count to
+    // keep the old "sum over tokens" magnitude
+    const rankQuery = buildTsQuery(tokens);
+    if (rankQuery) {
+      qb.setParameter('qRank', rankQuery);
+      const termCount = rankQuery.split(' | ').length;
+      scoreComponents.push({
+        name: 'termRank',
+        weight: RANK_SCALE * termCount,
+        sql: `(ts_rank('${RANK_WEIGHTS}', jp.search_vector, to_tsquery('english', :qRank)) * ${RANK_SCALE * termCount})`,
+      });
     }
 
-    tokens.forEach((_, idx) => {
-      const p = `qTok${idx}`;
-      qb.setParameter(p, `%${tokens[idx]}%`);
-      scoreExprParts.push(
-        `(CASE WHEN (jp.data->>'job_title') ILIKE :${p} THEN 3 ELSE 0 END)`,
-      );
-      scoreExprParts.push(
-        `(CASE WHEN (jp.data->>'job_function') ILIKE :${p} THEN 2 ELSE 0 END)`,
-      );
-      scoreExprParts.push(
-        `(CASE WHEN (jp.data->>'job_summary') ILIKE :${p} THEN 1 ELSE 0 END)`,
-      );
-      scoreExprParts.push(
-        `(CASE WHEN (jp.data->>'job_location') ILIKE :${p} THEN 4 ELSE 0 END)`,
-      );
-    });
+    if (fuzzyTitleQuery) {
+      qb.setParameter('fuzzyQuery', fuzzyTitleQuery);
+      scoreComponents.push({
+        name: 'fuzzyTitle',
+        weight: FUZZY_TITLE_WEIGHT,
+        sql: `(word_similarity(:fuzzyQuery, jp.data->>'job_title') * ${FUZZY_TITLE_WEIGHT})`,
+      });
+    }
 
     if (rawLocation) {
-      qb.setParameter('locTok', `%${rawLocation}%`);
-      scoreExprParts.push(
-        `(CASE WHEN (jp.data->>'job_location') ILIKE :locTok THEN 6 ELSE 0 END)`,
-      );
+      scoreComponents.push({
+        name: 'location',
+        weight: LOCATION_FILTER_WEIGHT,
+        sql: `(CASE WHEN ${locationSql} THEN ${LOCATION_FILTER_WEIGHT} ELSE 0 END)`,
+      });
     }
 
-    qb.addSelect(
-      scoreExprParts.length ? scoreExprParts.join(' + ') : '0',
-      'score',
-    );
+    const scoreSql = scoreComponents.length
+      ? `(${scoreComponents.map((c) => c.sql).join(' + ')})`
+      : '0';
+    qb.addSelect(scoreSql, 'score');
+
+    // Explain mode: each score component, the (term, field) pairs and the
+    // related job titles that match the row, selected next to the score
+    const explainTermList = params.explain
+      ? explainTerms(
+          baseTokens,
+          correction?.tokens ?? [],
+          tokens,
+          translatedTokens,
+        )
+      : [];
+    const explainChecks = termFieldChecks(explainTermList);
+    if (params.explain) {
+      scoreComponents.forEach((c, idx) => {
+        qb.addSelect(c.sql, `explain_score_${idx}`);
+      });
+      if (explainChecks.length > 0) {
+        qb.setParameter(
+          'explainTermQueries',
+          explainChecks.map((c) => c.tsQuery),
+        );
+        qb.addSelect(matchedOrdinalsSql('explainTermQueries'), 'explain_terms');
+      }
+      if (relatedJobTitles.length > 0) {
+        qb.setParameter(
+          'explainTitleQueries',
+          relatedJobTitles.map((t) => buildTsQuery([t], 'A')),
+        );
+        qb.addSelect(
+          matchedOrdinalsSql('explainTitleQueries'),
+          'explain_titles',
+        );
+      }
+    }
 
     // WHERE: Require job_title match for relevance to avoid irrelevant results
     // This ensures "software engineer" won't match "nurse" jobs even if job_summary contains "software"
     const whereClauses: string[] = [];
     const whereParams: Record<string, any> = {};
 
-    // Build job_title matching conditions (REQUIRED - job must have relevant title)
-    const jobTitleMatches: string[] = [];
+    // Query, related job titles and synonym tokens restricted to title lexemes (weight A).
+    // Served by the GIN index on search_vector instead of ILIKE scans.
+    const titleQuery =
+      searchQuery && !advanced
+        ? buildTsQuery([searchQuery, ...relatedJobTitles, ...tokens], 'A')
+        : '';
 
-    if (rawQuery) {
-      whereParams['qPhraseWhere'] = `%${rawQuery}%`;
-      jobTitleMatches.push(`(jp.data->>'job_title') ILIKE :qPhraseWhere`);
+    // REQUIRE at least one job_title match - this filters out irrelevant jobs
+    if (titleQuery) {
+      whereParams['titleQuery'] = titleQuery;
+      whereClauses.push(
+        `jp.search_vector @@ to_tsquery('english', :titleQuery)`,
+      );
     }
 
-    // Add related job titles to job_title matching (REQUIRED)
-    if (relatedJobTitles.length > 0) {
-      relatedJobTitles.forEach((title, idx) => {
-        const param = `relatedTitle${idx}`;
-        whereParams[param] = `%${title}%`;
-        jobTitleMatches.push(`(jp.data->>'job_title') ILIKE :${param}`);
-      });
+    // Trigram fallback for unknown words: the <% operator is served by the GIN
+    // trigram index on job_title, at the threshold set for the transaction
+    if (fuzzyTitleQuery) {
+      whereParams['fuzzyQuery'] = fuzzyTitleQuery;
+      whereClauses.push(`:fuzzyQuery <% (jp.data->>'job_title')`);
     }
 
-    // Add token matches to job_title (REQUIRED)
-    tokens.forEach((t, idx) => {
-      const p = `wTokTitle${idx}`;
-      whereParams[p] = `%${t}%`;
-      jobTitleMatches.push(`(jp.data->>'job_title') ILIKE :${p}`);
-    });
+    if (advanced) {
+      Object.assign(whereParams, advanced.params);
+      whereClauses.push(advanced.sql);
+    }
 
-    // REQUIRE at least one job_title match - this filters out irrelevant jobs
-    if (jobTitleMatches.length > 0) {
-      whereClauses.push(`(${jobTitleMatches.join(' OR ')})`);
-    } else if (rawQuery) {
-      // If no query provided, return empty (already handled above, but safety check)
-      return { count: 0, results: [] };
+    if (rawQuery && whereClauses.length === 0) {
+      // Query had no searchable words (e.g. only punctuation)
+      return { count: 0, results: [], nextCursor: null };
     }
 
     // Add location filter to params if provided
     if (rawLocation) {
       whereParams['locFilter'] = `%${rawLocation}%`;
+      whereParams['locCity'] = parsedLocation?.city ?? null;
+      whereParams['locRegion'] = parsedLocation?.region ?? null;
+      whereParams['locCountry'] = parsedLocation?.country ?? null;
+    }
+
+    if (region) {
+      whereParams['region'] = region.code;
+      whereParams['regionCountry'] = region.country;
+    } else if (country) {
+      whereParams['country'] = country.code;
+    }
+
+    if (workplace.length > 0) {
+      whereParams['workplace'] = workplace;
+    }
+
+    if (seniority.length > 0) {
+      whereParams['seniority'] = seniority;
+    }
+
+    if (minSalary !== undefined) {
+      whereParams['minSalary'] = minSalary;
+    }
+    if (maxSalary !== undefined) {
+      whereParams['maxSalary'] = maxSalary;
+    }
+
+    if (near) {
+      const box = boundingBox(near, radiusKm);
+      Object.assign(whereParams, {
+        nearLat: near.latitude,
+        nearLon: near.longitude,
+        nearRadius: radiusKm,
+        nearMinLat: box.minLat,
+        nearMaxLat: box.maxLat,
+        nearMinLon: box.minLon,
+        nearMaxLon: box.maxLon,
+      });
+      qb.addSelect(DISTANCE_KM_EXPR, 'distance_km');
+    }
+
+    if (jobFunction) {
+      whereParams['jobFunction'] = jobFunction.toLowerCase();
+    }
+
+    if (params.createdAfter) {
+      whereParams['createdAfter'] = params.createdAfter;
+    }
+    if (params.createdBefore) {
+      whereParams['createdBefore'] = params.createdBefore;
     }
 
     // Note: isEmailAvailable uses IS TRUE/IS FALSE, so no parameter needed
@@ -423,17 +671,71 @@ export class JobsService {
 
     // Location filter (AND)
     if (rawLocation) {
-      allWhereConditions.push(`(jp.data->>'job_location') ILIKE :locFilter`);
+      allWhereConditions.push(locationSql);
+    }
+
+    // Region/country filters on the parsed location (AND)
+    if (region) {
+      allWhereConditions.push(
+        'jp.location_region = :region AND jp.location_country = :regionCountry',
+      );
+    } else if (country) {
+      allWhereConditions.push('jp.location_country = :country');
+    }
+
+    // Workplace type filter (AND), any of the requested types
+    if (workplace.length > 0) {
+      allWhereConditions.push('jp.workplace_type IN (:...workplace)');
+    }
+
+    // Seniority filter (AND), any of the requested levels
+    if (seniority.length > 0) {
+      allWhereConditions.push('jp.seniority IN (:...seniority)');
+    }
+
+    // Salary range filters (AND): the posting's annualized range must overlap
+    if (minSalary !== undefined) {
+      allWhereConditions.push(
+        'COALESCE(jp.salary_annual_max, jp.salary_annual_min) >= :minSalary',
+      );
+    }
+    if (maxSalary !== undefined) {
+      allWhereConditions.push('jp.salary_annual_min <= :maxSalary');
+    }
+
+    // Radius filter (AND): bounding box for the index, then exact distance
+    if (near) {
+      allWhereConditions.push(
+        `(${BOUNDING_BOX_CONDITION} AND ${DISTANCE_KM_EXPR} <= :nearRadius)`,
+      );
+    }
+
+    // job_function filter (AND), exact match as returned by the function facet
+    if (jobFunction) {
+      allWhereConditions.push(
+        `lower(${FACET_EXPRESSIONS.function}) = :jobFunction`,
+      );
+    }
+
+    // Import time window (AND)
+    if (params.createdAfter) {
+      allWhereConditions.push('jp.created_at > :createdAfter');
+    }
+    if (params.createdBefore) {
+      allWhereConditions.push('jp.created_at <= :createdBefore');
+    }
+
+    // Suitability Score bucket filter (AND)
+    if (scoreBucketSql) {
+      allWhereConditions.push(scoreBucketSql);
     }
 
     // isEmailAvailable filter (AND)
     if (isEmailAvailable !== undefined) {
       if (isEmailAvailable) {
-        // Return records where resume_email is not null (has email value)
+        // Return records where resume_email is not null and not empty string
         // This ensures we only return jobs with actual email addresses
-        allWhereConditions.push('jp.resume_email IS NOT NULL');
-        // Also check that resume_email is not empty string
-        allWhereConditions.push("jp.resume_email != ''");
+        allWhereConditions.push(EMAIL_AVAILABLE_EXPR);
       } else {
         // Return records where isEmailAvailable is false or null, or resume_email is null/empty
         allWhereConditions.push(
@@ -442,6 +744,13 @@ export class JobsService {
       }
     }
 
+    // Near-duplicate collapse (AND): only the newest matching posting of each
+    // cluster, so count, facets and pages all see one row per job
+    const matchConditions = [...allWhereConditions];
+    if (params.collapse) {
+      allWhereConditions.push(collapseCondition(matchConditions));
+    }
+
     // Apply all WHERE conditions
     if (allWhereConditions.length > 0) {
       const whereSql = allWhereConditions.join(' AND ');
@@ -456,56 +765,746 @@ export class JobsService {
       this.logger.warn('No WHERE conditions generated for search');
     }
 
-    // Get total count before pagination for proper pagination support
-    // Create a separate count query builder
-    const countQb = this.jobPostingRepo.createQueryBuilder('jp');
-    if (allWhereConditions.length > 0) {
-      const whereSql = allWhereConditions.join(' AND ');
-      countQb.where(whereSql).setParameters(whereParams);
+    // Queries carrying the fuzzy predicate run in one transaction that sets its threshold
+    const runner = fuzzyTitleQuery
+      ? await this.trigramQueryRunner(fuzzyThreshold)
+      : undefined;
+    try {
+      if (runner) qb.setQueryRunner(runner);
+
+      // Get total count before pagination for proper pagination support
+      // Create a separate count query builder (optional, skipped by default for cursor pages)
+      let totalCount: number | null = null;
+      if (includeCount) {
+        const countQb = this.jobPostingRepo.createQueryBuilder('jp', runner);
+        if (allWhereConditions.length > 0) {
+          const whereSql = allWhereConditions.join(' AND ');
+          countQb.where(whereSql).setParameters(whereParams);
+        }
+        totalCount = await countQb.getCount();
+      }
+
+      // Facet counts over the same WHERE clause (cursor does not apply)
+      const facets = params.facets?.length
+        ? await this.computeFacets(
+            params.facets,
+            allWhereConditions,
+            whereParams,
+            runner,
+          )
+        : undefined;
+
+      // Sort keys for the selected mode, also returned raw so the last row can be
+      // turned into nextCursor
+      const blendWeights = this.getBlendWeights();
+      const sortKeys = sortKeysFor(sort, scoreSql, blendWeights);
+      const sortRefTime = cursor?.refTime ?? new Date().toISOString();
+      if (sort === 'blended') {
+        qb.setParameter('sortRefTime', sortRefTime);
+      }
+      sortKeys.forEach((key, idx) => {
+        qb.addSelect(key.selectExpr ?? key.expr, `sort_${idx}`);
+      });
+
+      // Rows strictly after the cursor; every key is DESC so a row comparison works
+      if (cursor) {
+        const cursorParams: Record<string, string | number> = {};
+        const cursorValues = sortKeys.map((key, idx) => {
+          cursorParams[`cursor${idx}`] = cursor.keys[idx];
+          return `CAST(:cursor${idx} AS ${key.type})`;
+        });
+        qb.andWhere(
+          `(${sortKeys.map((k) => k.expr).join(', ')}) < (${cursorValues.join(', ')})`,
+          cursorParams,
+        );
+      }
+
+      // All keys DESC; jp.id is the unique tie-breaker for stable pages
+      // (newest: created_at, then Suitability Score within the same date)
+      sortKeys.forEach((key, idx) => {
+        if (idx === 0) {
+          qb.orderBy(key.expr, 'DESC');
+        } else {
+          qb.addOrderBy(key.expr, 'DESC');
+        }
+      });
+      // Fetch one extra row to know whether another page exists
+      qb.limit(limit + 1);
+      if (!cursor) {
+        qb.offset(offset);
+      }
+
+      // Debug: log the generated SQL
+      const sql = qb.getSql();
+      this.logger.debug(`Generated SQL: ${sql}`);
+
+      const { entities: rows, raw } = await qb.getRawAndEntities();
+      const hasMore = rows.length > limit;
+      const entities = hasMore ? rows.slice(0, limit) : rows;
+
+      const lastRaw = raw[entities.length - 1];
+      const nextCursor =
+        hasMore && lastRaw
+          ? encodeCursor({
+              sort,
+              keys: sortKeys.map((_, idx) =>
+                idx === sortKeys.length - 1
+                  ? entities[entities.length - 1].id
+                  : lastRaw[`sort_${idx}`],
+              ),
+              refTime: sort === 'blended' ? sortRefTime : undefined,
+            })
+          : null;
+
+      this.logger.debug(
+        `Search results: found ${entities.length} entities (total: ${totalCount}), isEmailAvailable filter: ${isEmailAvailable}`,
+      );
+
+      const results = entities.map((e, i) =>
+        this.toJobResult(e, {
+          score: Number(raw[i]?.score ?? 0),
+          ...(near
+            ? {
+                distanceKm:
+                  raw[i]?.distance_km != null
+                    ? Math.round(Number(raw[i].distance_km) * 10) / 10
+                    : null,
+              }
+            : {}),
+        }),
+      );
+
+      if (params.collapse && results.length > 0) {
+        const siblings = await this.findClusterSiblings(
+          results,
+          matchConditions,
+          whereParams,
+          runner,
+        );
+        for (const r of results) {
+          const ids = r.cluster_id ? (siblings.get(r.cluster_id) ?? []) : [];
+          r.duplicates = {
+            count: ids.length,
+            job_posting_ids: ids,
+          };
+        }
+      }
+
+      // Highlighted title and summary snippet for the page, matched against the
+      // same terms that admitted the rows (query tokens, synonyms, related titles)
+      if (params.highlight && results.length > 0) {
+        const highlightQuery = buildTsQuery([...tokens, ...relatedJobTitles]);
+        const highlights = highlightQuery
+          ? await this.buildHighlights(
+              results.map((r) => r.id),
+              highlightQuery,
+              params.highlight,
+            )
+          : new Map<string, Record<string, string>>();
+        for (const r of results) {
+          r.highlights = highlights.get(r.id) ?? null;
+        }
+      }
+
+      if (params.explain) {
+        results.forEach((r, i) => {
+          const row = raw[i] ?? {};
+          r.explain = {
+            matchedTerms: groupTermMatches(
+              explainTermList,
+              explainChecks,
+              parseOrdinals(row.explain_terms),
+            ),
+            scoreComponents: scoreComponents.map((c, idx) => ({
+              name: c.name,
+              weight: c.weight,
+              contribution: Number(row[`explain_score_${idx}`] ?? 0),
+            })),
+            relatedJobTitles: parseOrdinals(row.explain_titles)
+              .map((ordinal) => relatedJobTitles[ordinal - 1])
+              .filter(Boolean),
+            sortKeys: sortKeys.map((key, idx) => ({
+              name: key.name,
+              value:
+                idx === sortKeys.length - 1
+                  ? r.id
+                  : (row[`sort_${idx}`] ?? null),
+            })),
+          };
+        });
+      }
+
+      return {
+        count: totalCount,
+        results,
+        nextCursor,
+        sort,
+        correctedQuery,
+        translatedQuery: translation?.query ?? null,
+        facets,
+        ...(params.explain
+          ? {
+              explain: {
+                terms: explainTermList,
+                relatedJobTitles,
+                advanced: advanced !== null,
+                fuzzyTitleQuery: fuzzyTitleQuery || null,
+                blendWeights: sort === 'blended' ? blendWeights : undefined,
+              },
+            }
+          : {}),
+      };
+    } finally {
+      if (runner) {
+        // Read-only; rolling back just ends the transaction and its SET LOCAL
+        await runner.rollbackTransaction().catch(() => undefined);
+        await runner.release();
+      }
+    }
+  }
+
+  /**
+   * Query runner in a transaction where the title trigram operator (<%)
+   * matches at the given word similarity
+   */
+  private async trigramQueryRunner(threshold: number): Promise<QueryRunner> {
+    const runner = this.jobPostingRepo.manager.connection.createQueryRunner();
+    try {
+      await runner.connect();
+      await runner.startTransaction();
+      // SET takes no bind parameters; the threshold is a number from getFuzzyThreshold
+      await runner.query(
+        `SET LOCAL pg_trgm.word_similarity_threshold = ${Number(threshold)}`,
+      );
+      return runner;
+    } catch (err) {
+      await runner.release();
+      throw err;
+    }
+  }
+
+  /**
+   * Public shape of a posting row: ids, derived columns, then the raw CSV data
+   */
+  private toJobResult(e: JobPosting, extra: Record<string, any> = {}) {
+    const suitabilityScore = e.data?.['Suitability Score'];
+    const suitabilityScoreNum =
+      typeof suitabilityScore === 'number'
+        ? suitabilityScore
+        : typeof suitabilityScore === 'string'
+          ? parseFloat(suitabilityScore)
+          : null;
+    return {
+      id: e.id,
+      job_posting_id: e.job_posting_id,
+      ...extra,
+      suitabilityScore: suitabilityScoreNum,
+      isEmailAvailable: e.isEmailAvailable ?? false,
+      resume_email: e.resume_email ?? null,
+      parsedLocation: {
+        city: e.location_city ?? null,
+        region: e.location_region ?? null,
+        country: e.location_country ?? null,
+        latitude: e.latitude ?? null,
+        longitude: e.longitude ?? null,
+      },
+      workplace: e.workplace_type
+        ? {
+            type: e.workplace_type,
+            confidence: e.workplace_confidence ?? null,
+          }
+        : null,
+      seniority: e.seniority ?? null,
+      cluster_id: e.cluster_id ?? null,
+      salary:
+        e.salary_min != null
+          ? {
+              min: e.salary_min,
+              max: e.salary_max ?? e.salary_min,
+              currency: e.salary_currency ?? null,
+              period: e.salary_period ?? null,
+              annualMin: e.salary_annual_min ?? null,
+              annualMax: e.salary_annual_max ?? null,
+            }
+          : null,
+      ...e.data,
+    } as Record<string, any>;
+  }
+
+  /**
+   * searchJobs for /jobs/search: the call is recorded for search analytics and
+   * the response carries its searchId, for reporting clicks on the results
+   */
+  async trackedSearch(params: JobSearchOptions) {
+    const startedAt = Date.now();
+    const result = await this.searchJobs(params);
+    const searchId = randomUUID();
+    this.searchAnalytics.record({
+      id: searchId,
+      query: normalizeSearchText(params.query),
+      location: normalizeSearchText(params.location),
+      filters: searchFilters(params),
+      resultCount: result.count,
+      returnedCount: result.results.length,
+      firstPage: !params.cursor && !params.offset,
+      latencyMs: Date.now() - startedAt,
+    });
+    return { searchId, ...result };
+  }
+
+  recordSearchClick(searchId: string) {
+    if (!UUID_PATTERN.test(searchId)) {
+      throw new BadRequestException('유효하지 않은 searchId 값입니다.');
+    }
+    return this.searchAnalytics.recordClick(searchId);
+  }
+
+  getSearchAnalytics(
+    report: AnalyticsReport,
+    opts: { days?: number; limit?: number },
+  ) {
+    return this.searchAnalytics.report(report, opts);
+  }
+
+  /**
+   * job_posting_ids of the other postings (matching the same search) in the
+   * clusters of the given representatives, newest first
+   */
+  private async findClusterSiblings(
+    representatives: Record<string, any>[],
+    whereConditions: string[],
+    whereParams: Record<string, any>,
+    runner?: QueryRunner,
+  ): Promise<Map<string, string[]>> {
+    const clusterIds = Array.from(
+      new Set(representatives.map((r) => r.cluster_id).filter(Boolean)),
+    );
+    const siblings = new Map<string, string[]>();
+    if (clusterIds.length === 0) return siblings;
+
+    const qb = this.jobPostingRepo
+      .createQueryBuilder(SIBLING_ALIAS, runner)
+      .select(`${SIBLING_ALIAS}.cluster_id`, 'cluster_id')
+      .addSelect(`${SIBLING_ALIAS}.job_posting_id`, 'job_posting_id')
+      .where(`${SIBLING_ALIAS}.cluster_id IN (:...siblingClusters)`, {
+        siblingClusters: clusterIds,
+      })
+      .andWhere(`${SIBLING_ALIAS}.id NOT IN (:...siblingExclude)`, {
+        siblingExclude: representatives.map((r) => r.id),
+      })
+      .orderBy(`${SIBLING_ALIAS}.created_at`, 'DESC');
+    if (whereConditions.length > 0) {
+      qb.andWhere(siblingConditions(whereConditions)).setParameters(
+        whereParams,
+      );
+    }
+
+    const rows: { cluster_id: string; job_posting_id: string }[] =
+      await qb.getRawMany();
+    for (const row of rows) {
+      const list = siblings.get(row.cluster_id) ?? [];
+      list.push(row.job_posting_id);
+      siblings.set(row.cluster_id, list);
     }
-    const totalCount = await countQb.getCount();
+    return siblings;
+  }
+
+  /**
+   * Render ts_headline fragments for a page of results (only the page rows, not the whole match set)
+   */
+  private async buildHighlights(
+    ids: string[],
+    tsQuery: string,
+    options: HighlightOptions,
+  ): Promise<Map<string, Record<string, string>>> {
+    const rows: { id: string; job_title: string; job_summary: string }[] =
+      await this.jobPostingRepo
+        .createQueryBuilder('jp')
+        .select('jp.id', 'id')
+        .addSelect(
+          "ts_headline('english', coalesce(jp.data->>'job_title', ''), to_tsquery('english', :hlQuery), :hlTitleOptions)",
+          'job_title',
+        )
+        .addSelect(
+          "ts_headline('english', coalesce(jp.data->>'job_summary', ''), to_tsquery('english', :hlQuery), :hlSummaryOptions)",
+          'job_summary',
+        )
+        .where('jp.id IN (:...hlIds)', {
+          hlIds: ids,
+          hlQuery: tsQuery,
+          hlTitleOptions: headlineOptions(options, 'title'),
+          hlSummaryOptions: headlineOptions(options, 'summary'),
+        })
+        .getRawMany();
+    return new Map(
+      rows.map((r) => [
+        r.id,
+        { job_title: r.job_title, job_summary: r.job_summary },
+      ]),
+    );
+  }
 
-    // Order by created_at DESC first (latest first), then by Suitability Score DESC (highest score within same date)
-    qb.orderBy('jp.created_at', 'DESC');
-    qb.addOrderBy(
-      "CAST(jp.data->>'Suitability Score' AS NUMERIC)",
-      'DESC',
-      'NULLS LAST',
+  /**
+   * Related job titles from the cached vocabulary (title catalog and keyword mappings)
+   */
+  private findRelatedTitles(query: string, fuzzyThreshold?: number): string[] {
+    const { jobTitles, titleMappings } = this.vocabulary.getVocabulary();
+    return findRelatedJobTitles(
+      query,
+      jobTitles,
+      titleMappings,
+      fuzzyThreshold,
     );
-    qb.limit(limit);
-    qb.offset(offset);
+  }
 
-    // Debug: log the generated SQL
-    const sql = qb.getSql();
-    this.logger.debug(`Generated SQL: ${sql}`);
+  /**
+   * Parse and compile an advanced q. Malformed queries become 400 errors.
+   */
+  private compileAdvancedQuery(query: string): CompiledQuery {
+    try {
+      return compileQuery(parseQuery(query), {
+        expandTerm: (word) => [
+          ...this.findRelatedTitles(word),
+          ...expandTokens(
+            toLexemes(word),
+            this.vocabulary.getVocabulary().synonyms,
+          ),
+        ],
+      });
+    } catch (err) {
+      if (err instanceof QuerySyntaxError) {
+        throw new BadRequestException(`검색어 구문 오류: ${err.message}`);
+      }
+      throw err;
+    }
+  }
 
-    const { entities, raw } = await qb.getRawAndEntities();
+  /**
+   * Minimum trigram similarity for typo correction and the title trigram
+   * fallback, overridable through SEARCH_FUZZY_THRESHOLD
+   */
+  private getFuzzyThreshold(): number {
+    const raw = this.configService.get<string>('SEARCH_FUZZY_THRESHOLD');
+    const value = raw !== undefined && raw !== '' ? Number(raw) : NaN;
+    return Number.isFinite(value) && value > 0 && value <= 1
+      ? value
+      : DEFAULT_FUZZY_THRESHOLD;
+  }
 
-    this.logger.debug(
-      `Search results: found ${entities.length} entities (total: ${totalCount}), isEmailAvailable filter: ${isEmailAvailable}`,
+  /**
+   * Blended sort weights, overridable through SEARCH_BLEND_* environment variables
+   */
+  private getBlendWeights(): BlendWeights {
+    const read = (key: string, fallback: number) => {
+      const raw = this.configService.get<string>(key);
+      const value = raw !== undefined && raw !== '' ? Number(raw) : NaN;
+      return Number.isFinite(value) ? value : fallback;
+    };
+    return {
+      relevance: read(
+        'SEARCH_BLEND_RELEVANCE_WEIGHT',
+        DEFAULT_BLEND_WEIGHTS.relevance,
+      ),
+      recency: read(
+        'SEARCH_BLEND_RECENCY_WEIGHT',
+        DEFAULT_BLEND_WEIGHTS.recency,
+      ),
+      suitability: read(
+        'SEARCH_BLEND_SUITABILITY_WEIGHT',
+        DEFAULT_BLEND_WEIGHTS.suitability,
+      ),
+      halfLifeDays: Math.max(
+        read('SEARCH_BLEND_HALF_LIFE_DAYS', DEFAULT_BLEND_WEIGHTS.halfLifeDays),
+        0.1,
+      ),
+    };
+  }
+
+  /**
+   * Aggregate search matches per facet value.
+   * Each value carries the filter parameters that narrow the search to it.
+   */
+  private async computeFacets(
+    names: FacetName[],
+    whereConditions: string[],
+    whereParams: Record<string, any>,
+    runner?: QueryRunner,
+  ) {
+    const whereSql = whereConditions.join(' AND ');
+    const entries = await Promise.all(
+      names.map(async (name) => {
+        const facetQb = this.jobPostingRepo
+          .createQueryBuilder('jp', runner)
+          .select(FACET_EXPRESSIONS[name], 'value')
+          .addSelect('COUNT(*)', 'count')
+          .groupBy('value')
+          .orderBy('count', 'DESC');
+        if (whereSql) {
+          facetQb.where(whereSql).setParameters(whereParams);
+        }
+        if (name === 'function' || name === 'location') {
+          facetQb.limit(FACET_VALUE_LIMIT + 1);
+        }
+
+        const rows: { value: string | null; count: string }[] =
+          await facetQb.getRawMany();
+        const values = rows
+          .filter((r) => r.value !== null && r.value !== '')
+          .slice(0, FACET_VALUE_LIMIT)
+          .map((r) => ({
+            value: r.value,
+            count: Number(r.count),
+            filter: facetFilter(name, r.value),
+          }));
+        return [name, values] as const;
+      }),
     );
+    return Object.fromEntries(entries);
+  }
 
-    const results = entities.map((e, i) => {
-      const score = Number(raw[i]?.score ?? 0);
-      const suitabilityScore = e.data?.['Suitability Score'];
-      const suitabilityScoreNum =
-        typeof suitabilityScore === 'number'
-          ? suitabilityScore
-          : typeof suitabilityScore === 'string'
-            ? parseFloat(suitabilityScore)
-            : null;
-      return {
-        id: e.id,
-        job_posting_id: e.job_posting_id,
-        score,
-        suitabilityScore: suitabilityScoreNum,
-        isEmailAvailable: e.isEmailAvailable ?? false,
-        resume_email: e.resume_email ?? null,
-        ...e.data,
-      } as Record<string, any>;
+  /**
+   * Postings resembling the given one, for the "similar jobs" list of a detail page.
+   * Candidates share a title word (synonyms included); postings without title
+   * words fall back to the same job_function.
+   */
+  async findSimilarJobs(jobPostingId: string, limit?: number) {
+    const source = await this.jobPostingRepo.findOne({
+      where: { job_posting_id: jobPostingId },
     });
+    if (!source) {
+      throw new NotFoundException(
+        `해당 job_posting_id의 공고를 찾을 수 없습니다: ${jobPostingId}`,
+      );
+    }
+    const take = Math.min(
+      Math.max(limit ?? DEFAULT_SIMILAR_LIMIT, 1),
+      MAX_SIMILAR_LIMIT,
+    );
+
+    const title = String(source.data?.job_title ?? '');
+    const location = String(source.data?.job_location ?? '');
+    const summary = String(source.data?.job_summary ?? '');
+    const jobFunction = String(source.data?.job_function ?? '')
+      .trim()
+      .toLowerCase();
+
+    const baseTokens = titleTokens(title);
+    const titleQuery = buildTsQuery(
+      expandTokens(baseTokens, this.vocabulary.getVocabulary().synonyms),
+      'A',
+    );
+    if (!titleQuery && !jobFunction) {
+      return { job_posting_id: jobPostingId, count: 0, results: [] };
+    }
+
+    const qb = this.jobPostingRepo.createQueryBuilder('jp');
+    qb.select(RESULT_COLUMNS);
+    const scoreParts: string[] = [];
+
+    // Title overlap, ranked on the posting's own title words
+    if (titleQuery) {
+      qb.where(`jp.search_vector @@ to_tsquery('english', :similarTitle)`, {
+        similarTitle: titleQuery,
+      });
+      qb.setParameter('similarTitleRank', buildTsQuery(baseTokens, 'A'));
+      scoreParts.push(
+        `(ts_rank('${RANK_WEIGHTS}', jp.search_vector, to_tsquery('english', :similarTitleRank)) * ${SIMILAR_TITLE_WEIGHT})`,
+      );
+    }
+
+    if (jobFunction) {
+      const sameFunction = `lower(${FACET_EXPRESSIONS.function}) = :similarFunction`;
+      qb.setParameter('similarFunction', jobFunction);
+      if (!titleQuery) qb.where(sameFunction);
+      scoreParts.push(
+        `(CASE WHEN ${sameFunction} THEN ${SIMILAR_FUNCTION_WEIGHT} ELSE 0 END)`,
+      );
+    }
+
+    // Nearby: linear decay over SIMILAR_NEARBY_KM, or the same location text
+    // when the posting's location did not resolve to coordinates
+    if (source.latitude != null && source.longitude != null) {
+      const near = { latitude: source.latitude, longitude: source.longitude };
+      const box = boundingBox(near, SIMILAR_NEARBY_KM);
+      qb.setParameters({
+        nearLat: near.latitude,
+        nearLon: near.longitude,
+        nearMinLat: box.minLat,
+        nearMaxLat: box.maxLat,
+        nearMinLon: box.minLon,
+        nearMaxLon: box.maxLon,
+      });
+      scoreParts.push(
+        `(CASE WHEN ${BOUNDING_BOX_CONDITION} THEN GREATEST(0, 1 - ${DISTANCE_KM_EXPR} / ${SIMILAR_NEARBY_KM}) * ${SIMILAR_LOCATION_WEIGHT} ELSE 0 END)`,
+      );
+    } else if (location.trim()) {
+      qb.setParameter('similarLocation', location.trim().toLowerCase());
+      scoreParts.push(
+        `(CASE WHEN lower(btrim(jp.data->>'job_location')) = :similarLocation THEN ${SIMILAR_LOCATION_WEIGHT} ELSE 0 END)`,
+      );
+    }
+
+    // Summary vocabulary: share of the posting's top keywords found in the summary
+    const keywords = summaryKeywords(summary);
+    if (keywords.length > 0) {
+      qb.setParameter(
+        'similarKeywords',
+        keywords.map((k) => buildTsQuery([k], 'D')),
+      );
+      scoreParts.push(
+        `(${keywordShareSql('similarKeywords', keywords.length)} * ${SIMILAR_SUMMARY_WEIGHT})`,
+      );
+    }
+
+    const scoreSql = scoreParts.length ? `(${scoreParts.join(' + ')})` : '0';
+    qb.addSelect(scoreSql, 'score')
+      .andWhere('jp.id <> :sourceId', { sourceId: source.id })
+      .andWhere(`NOT (${DUPLICATE_CONDITION})`, {
+        dupTitle: title.toLowerCase(),
+        dupLocation: location.toLowerCase(),
+        dupSummary: summary,
+      });
+    // Reposts of the same job are not "similar"
+    if (source.cluster_id) {
+      qb.andWhere(
+        '(jp.cluster_id IS NULL OR jp.cluster_id <> :sourceCluster)',
+        {
+          sourceCluster: source.cluster_id,
+        },
+      );
+    }
+    qb.orderBy(scoreSql, 'DESC')
+      .addOrderBy('jp.created_at', 'DESC')
+      .addOrderBy('jp.id', 'DESC')
+      .limit(take);
+
+    const { entities, raw } = await qb.getRawAndEntities();
+    const results = entities.map((e, i) =>
+      this.toJobResult(e, { score: Number(raw[i]?.score ?? 0) }),
+    );
+    return { job_posting_id: jobPostingId, count: results.length, results };
+  }
+
+  /**
+   * Search-as-you-type suggestions for job titles and locations.
+   * Ranks the title catalog, role synonyms and the values actually present in
+   * job_postings (weighted by how many postings carry them).
+   */
+  async suggest(prefix: string, limit?: number) {
+    const p = prefix.trim();
+    const max = Math.min(Math.max(Number.isFinite(limit) ? limit : 10, 1), 50);
+    if (!p) {
+      return { prefix: p, suggestions: [] };
+    }
+
+    const candidates: SuggestionCandidate[] = [];
+    const vocabulary = this.vocabulary.getVocabulary();
+    for (const title of vocabulary.jobTitles) {
+      if (matchesPrefix(title, p)) {
+        candidates.push({ value: title, type: 'title', source: 'catalog' });
+      }
+    }
+    for (const { key, terms } of vocabulary.synonyms) {
+      for (const value of [key, ...terms]) {
+        if (matchesPrefix(value, p)) {
+          candidates.push({ value, type: 'title', source: 'synonym' });
+        }
+      }
+    }
+    // Korean role terms, searchable through the Korean <-> English dictionary
+    if (hasHangul(p)) {
+      for (const value of koreanTermsWithPrefix(p)) {
+        candidates.push({ value, type: 'title', source: 'korean' });
+      }
+    }
+
+    const [titles, locations] = await Promise.all([
+      this.findDistinctValues('job_title', p, max),
+      this.findDistinctValues('job_location', p, max),
+    ]);
+    for (const row of titles) {
+      candidates.push({ ...row, type: 'title', source: 'postings' });
+    }
+    for (const row of locations) {
+      candidates.push({ ...row, type: 'location', source: 'postings' });
+    }
+
+    return { prefix: p, suggestions: rankSuggestions(candidates, p, max) };
+  }
+
+  /**
+   * Most frequent values of a data field that start with the prefix (whole value or any word)
+   */
+  private async findDistinctValues(
+    field: 'job_title' | 'job_location',
+    prefix: string,
+    limit: number,
+  ): Promise<{ value: string; count: number }[]> {
+    const expr = `btrim(jp.data->>'${field}')`;
+    const like = prefix.replace(/[\\%_]/g, (c) => `\\${c}`);
+    const rows: { value: string; count: string }[] = await this.jobPostingRepo
+      .createQueryBuilder('jp')
+      .select(expr, 'value')
+      .addSelect('COUNT(*)', 'count')
+      .where(
+        `(jp.data->>'${field}' ILIKE :startsWith OR jp.data->>'${field}' ILIKE :wordStartsWith)`,
+        { startsWith: `${like}%`, wordStartsWith: `% ${like}%` },
+      )
+      .groupBy('value')
+      .orderBy('count', 'DESC')
+      .limit(limit)
+      .getRawMany();
+    return rows
+      .filter((r) => r.value)
+      .map((r) => ({ value: r.value, count: Number(r.count) }));
+  }
+
+  listSynonymGroups() {
+    return this.vocabulary.listSynonymGroups();
+  }
+
+  createSynonymGroup(input: SynonymGroupInput) {
+    return this.vocabulary.createSynonymGroup(input);
+  }
+
+  updateSynonymGroup(id: string, input: SynonymGroupInput) {
+    return this.vocabulary.updateSynonymGroup(id, input);
+  }
+
+  deleteSynonymGroup(id: string) {
+    return this.vocabulary.deleteSynonymGroup(id);
+  }
+
+  listJobTitles() {
+    return this.vocabulary.listJobTitles();
+  }
+
+  addJobTitle(title: string) {
+    return this.vocabulary.addJobTitle(title);
+  }
+
+  deleteJobTitle(id: string) {
+    return this.vocabulary.deleteJobTitle(id);
+  }
+
+  listTitleMappings() {
+    return this.vocabulary.listTitleMappings();
+  }
+
+  upsertTitleMapping(keyword: string, titles: string[]) {
+    return this.vocabulary.upsertTitleMapping(keyword, titles);
+  }
 
-    return { count: totalCount, results };
+  deleteTitleMapping(id: string) {
+    return this.vocabulary.deleteTitleMapping(id);
+  }
+
+  exportVocabulary() {
+    return this.vocabulary.exportDictionary();
+  }
+
+  importVocabulary(dictionary: unknown, mode: 'replace' | 'merge') {
+    return this.vocabulary.importDictionary(dictionary, mode);
   }
 
   async listBoardJobs(boardToken: string, content?: boolean) {
@@ -533,12 +1532,163 @@ export class JobsService {
     return this.jobBoard.apply(boardToken, jobId, input);
   }
 
-  startCsvImport(file: Express.Multer.File) {
-    return this.importer.startCsvImport(file.buffer, {
-      batchSize: 30,
-      intervalMs: 5000,
-      idColumn: 'job_posting_id',
-    });
+  /**
+   * Start a background import of an uploaded CSV, NDJSON, JSON array or XLSX
+   * file (format detected unless given) after checking its encoding and
+   * columns, with the mapping profile applied. The upload stays on disk until
+   * the import ends, so it can resume after a restart.
+   */
+  async startFileImport(
+    file: Express.Multer.File,
+    opts: {
+      format?: ImportFormat;
+      // Column mapping profile id or name
+      mappingProfile?: string;
+      batchSize?: number;
+      intervalMs?: number;
+      idColumn?: string;
+    } = {},
+  ) {
+    const idColumn = opts.idColumn ?? 'job_posting_id';
+    const upload = await this.prepareUpload(file, { ...opts, idColumn });
+
+    let started: { importId: string };
+    try {
+      started = await this.importer.startImport(
+        { path: upload.path, name: file.originalname, deleteWhenDone: true },
+        {
+          format: upload.format,
+          mapping: upload.mapping,
+          batchSize: opts.batchSize ?? 30,
+          intervalMs: opts.intervalMs ?? 5000,
+          idColumn,
+        },
+      );
+    } catch (err) {
+      // No job row, so nothing would ever clean the file up
+      await unlink(upload.path).catch(() => undefined);
+      throw err;
+    }
+    return {
+      ...started,
+      fileName: file.originalname,
+      size: file.size,
+      format: upload.format,
+      mappingProfile: upload.mapping?.name ?? null,
+      columns: upload.columns,
+    };
+  }
+
+  /**
+   * Check every record of an uploaded file the way an import would handle it,
+   * without writing anything; the upload is removed afterwards
+   */
+  async dryRunFileImport(
+    file: Express.Multer.File,
+    opts: {
+      format?: ImportFormat;
+      mappingProfile?: string;
+      idColumn?: string;
+    } = {},
+  ) {
+    const idColumn = opts.idColumn ?? 'job_posting_id';
+    const upload = await this.prepareUpload(file, { ...opts, idColumn });
+    try {
+      const report = await this.importer.dryRun(upload.path, {
+        format: upload.format,
+        mapping: upload.mapping,
+        idColumn,
+      });
+      return {
+        fileName: file.originalname,
+        size: file.size,
+        format: upload.format,
+        mappingProfile: upload.mapping?.name ?? null,
+        idColumn,
+        columns: upload.columns,
+        ...report,
+      };
+    } finally {
+      await unlink(upload.path).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Checks an upload before it is read (format, encoding, required columns
+   * after mapping) and makes sure it is on disk. Rejected uploads are removed.
+   */
+  private async prepareUpload(
+    file: Express.Multer.File,
+    opts: { format?: ImportFormat; mappingProfile?: string; idColumn: string },
+  ) {
+    const removeUpload = () => {
+      if (file.path) {
+        unlink(file.path).catch(() => undefined);
+      }
+    };
+
+    let mapping: (MappingRules & { name: string }) | undefined;
+    try {
+      mapping = opts.mappingProfile
+        ? await this.mappingProfiles.rules(opts.mappingProfile)
+        : undefined;
+    } catch (err) {
+      removeUpload();
+      throw err;
+    }
+
+    let format: ImportFormat;
+    let columns: string[];
+    try {
+      let sample = await this.readUploadSample(file);
+      format = opts.format ?? detectImportFormat(sample, file.originalname);
+      if (format === 'xlsx') {
+        if (file.size > MAX_XLSX_UPLOAD_MB * 1024 * 1024) {
+          throw new Error(
+            `XLSX files are limited to ${MAX_XLSX_UPLOAD_MB} MB; use CSV or NDJSON for larger files`,
+          );
+        }
+        // The zip directory is at the end, so the check needs the whole file
+        sample = file.path ? await readFile(file.path) : file.buffer;
+      }
+      columns = await validateImportHeader(
+        sample,
+        format,
+        opts.idColumn,
+        mapping,
+      );
+    } catch (err: any) {
+      removeUpload();
+      throw new BadRequestException(
+        `파일을 가져올 수 없습니다: ${err?.message}`,
+      );
+    }
+
+    let path = file.path;
+    if (!path) {
+      // Memory storage: imports read from disk, so keep the bytes there too
+      await mkdir(importStorageDir(), { recursive: true });
+      path = join(importStorageDir(), randomUUID());
+      await writeFile(path, file.buffer);
+    }
+    return { path, format, columns, mapping };
+  }
+
+  private async readUploadSample(file: Express.Multer.File): Promise<Buffer> {
+    if (!file.path) return file.buffer.subarray(0, HEADER_SAMPLE_BYTES);
+    const handle = await open(file.path, 'r');
+    try {
+      const sample = Buffer.alloc(HEADER_SAMPLE_BYTES);
+      const { bytesRead } = await handle.read(
+        sample,
+        0,
+        HEADER_SAMPLE_BYTES,
+        0,
+      );
+      return sample.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
   }
 
   startLocalCsvImport() {
@@ -565,18 +1715,149 @@ export class JobsService {
       throw new Error('jobList.csv not found in Data directory');
     }
 
-    const buffer = fs.readFileSync(existing);
-    return this.importer.startCsvImport(buffer, {
-      batchSize: 30,
-      intervalMs: 5000,
-      idColumn: 'job_posting_id',
-    });
+    return this.importer.startImport(
+      { path: existing, name: path.basename(existing), deleteWhenDone: false },
+      {
+        batchSize: 30,
+        intervalMs: 5000,
+        idColumn: 'job_posting_id',
+      },
+    );
   }
 
-  getImportStatus(id: string): any {
+  getImportStatus(id: string): Promise<any> {
     return this.importer.getStatus(id);
   }
 
+  listImports(opts: { state?: string; limit?: number; offset?: number }) {
+    return this.importer.list(opts);
+  }
+
+  createMappingProfile(input: MappingProfileInput) {
+    return this.mappingProfiles.create(input);
+  }
+
+  listMappingProfiles() {
+    return this.mappingProfiles.list();
+  }
+
+  getMappingProfile(idOrName: string) {
+    return this.mappingProfiles.get(idOrName);
+  }
+
+  updateMappingProfile(id: string, input: MappingProfileInput) {
+    return this.mappingProfiles.update(id, input);
+  }
+
+  deleteMappingProfile(id: string) {
+    return this.mappingProfiles.delete(id);
+  }
+
+  createSavedSearch(input: SavedSearchInput) {
+    return this.savedSearches.create(input);
+  }
+
+  listSavedSearches(email: string) {
+    return this.savedSearches.listByEmail(email);
+  }
+
+  updateSavedSearch(
+    id: string,
+    token: string | undefined,
+    input: SavedSearchInput,
+  ) {
+    return this.savedSearches.update(id, token, input);
+  }
+
+  deleteSavedSearch(id: string, token: string | undefined) {
+    return this.savedSearches.delete(id, token);
+  }
+
+  unsubscribeSavedSearch(token: string) {
+    return this.savedSearches.unsubscribe(token);
+  }
+
+  /**
+   * Re-run due saved searches over postings imported since their last check
+   * and email a digest of the new matches. One run at a time.
+   */
+  async runSavedSearchAlerts(trigger: 'import' | 'schedule') {
+    if (this.alertsRunning) {
+      return {
+        trigger,
+        alreadyRunning: true,
+        checked: 0,
+        emailed: 0,
+        failed: 0,
+      };
+    }
+    this.alertsRunning = true;
+    const summary = {
+      trigger,
+      alreadyRunning: false,
+      checked: 0,
+      emailed: 0,
+      failed: 0,
+    };
+
+    try {
+      const now = new Date();
+      const due = await this.savedSearches.findDue(trigger, now);
+      for (const search of due) {
+        summary.checked++;
+        try {
+          const { results, count } = await this.searchJobs({
+            ...search.params,
+            createdAfter: search.last_checked_at,
+            createdBefore: now,
+            sort: 'newest',
+            limit: DIGEST_RESULT_LIMIT,
+            includeCount: true,
+            fuzzy: false,
+            collapse: true,
+          });
+          const postings: DigestPosting[] = results.map((r) => ({
+            job_posting_id: r.job_posting_id,
+            job_title: r.job_title,
+            company_name: r.company_name ?? r.company,
+            job_location: r.job_location,
+            job_url: r.job_url ?? r.job_apply_link ?? r.url,
+            salary: r.salary,
+          }));
+          const sent = await this.savedSearches.deliver(
+            search,
+            now,
+            postings,
+            count ?? results.length,
+          );
+          if (sent) summary.emailed++;
+        } catch (err: any) {
+          summary.failed++;
+          this.logger.error(
+            `Saved search ${search.id} alert failed: ${err?.message}`,
+          );
+        }
+      }
+    } finally {
+      this.alertsRunning = false;
+    }
+
+    if (summary.checked > 0) {
+      this.logger.log(
+        `Saved search alerts (${trigger}): checked=${summary.checked} emailed=${summary.emailed} failed=${summary.failed}`,
+      );
+    }
+    return summary;
+  }
+
+  startEnrichmentBackfill(force?: boolean) {
+    return this.enrichment.startBackfill({ force });
+  }
+
+  getEnrichmentBackfillStatus(id: string) {
+    return this.enrichment.getStatus(id);
+  }
+
   /**
    * Apply to jobs by job_posting_id(s)
    * Supports both single ID (string) and multiple IDs (array of strings)
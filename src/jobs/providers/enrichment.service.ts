@@ -0,0 +1,136 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { JobPosting } from '../../entities/job-posting.entity';
+import { enrichPosting, ENRICHMENT_VERSION } from '../enrichment/enrich';
+
+export interface BackfillStatus {
+  id: string;
+  total: number;
+  processed: number;
+  updated: number;
+  failed: number;
+  done: boolean;
+  startedAt: number;
+  // Reprocess every row instead of only rows below ENRICHMENT_VERSION
+  force: boolean;
+  lastError?: string;
+}
+
+/**
+ * Recomputes the derived columns (parsed location, workplace type, salary, seniority) of
+ * postings imported before a parser existed or changed
+ */
+@Injectable()
+export class EnrichmentService {
+  private readonly logger = new Logger(EnrichmentService.name);
+  private readonly statuses = new Map<string, BackfillStatus>();
+  private readonly batchSize = 200;
+
+  constructor(
+    @InjectRepository(JobPosting)
+    private readonly jobPostingRepo: Repository<JobPosting>,
+  ) {}
+
+  startBackfill(opts?: { force?: boolean }) {
+    const running = Array.from(this.statuses.values()).find((s) => !s.done);
+    if (running) {
+      // Two backfills would fight over the same rows
+      return { backfillId: running.id, alreadyRunning: true };
+    }
+
+    const id = randomUUID();
+    const status: BackfillStatus = {
+      id,
+      total: 0,
+      processed: 0,
+      updated: 0,
+      failed: 0,
+      done: false,
+      startedAt: Date.now(),
+      force: opts?.force === true,
+    };
+    this.statuses.set(id, status);
+
+    void this.processBackfill(status);
+
+    return { backfillId: id, alreadyRunning: false };
+  }
+
+  getStatus(id: string): BackfillStatus | { error: string } {
+    const status = this.statuses.get(id);
+    if (!status) {
+      return { error: 'not_found' };
+    }
+    return status;
+  }
+
+  /**
+   * Walk the table in id order (keyset, so updated rows do not shift pages)
+   */
+  private async processBackfill(status: BackfillStatus) {
+    const pending = () => {
+      const qb = this.jobPostingRepo.createQueryBuilder('jp');
+      if (!status.force) {
+        qb.where('jp.enrichment_version < :version', {
+          version: ENRICHMENT_VERSION,
+        });
+      }
+      return qb;
+    };
+
+    try {
+      status.total = await pending().getCount();
+      this.logger.log(
+        `Enrichment backfill ${status.id}: ${status.total} postings to process`,
+      );
+
+      let lastId: string | null = null;
+      for (;;) {
+        const qb = pending()
+          .select(['jp.id', 'jp.job_posting_id', 'jp.data'])
+          .orderBy('jp.id', 'ASC')
+          .take(this.batchSize);
+        if (lastId) {
+          qb.andWhere('jp.id > :lastId', { lastId });
+        }
+        const records = await qb.getMany();
+        if (records.length === 0) break;
+        lastId = records[records.length - 1].id;
+
+        for (const record of records) {
+          try {
+            await this.jobPostingRepo.update(
+              { id: record.id },
+              enrichPosting(record.data ?? {}),
+            );
+            status.updated++;
+          } catch (err: any) {
+            status.failed++;
+            status.lastError = err?.message ?? String(err);
+            this.logger.warn(
+              `Failed to enrich ${record.job_posting_id}: ${status.lastError}`,
+            );
+          }
+        }
+        status.processed += records.length;
+
+        // Small delay to avoid overwhelming the system
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+
+      status.done = true;
+      this.logger.log(
+        `Enrichment backfill ${status.id} completed: updated=${status.updated} failed=${status.failed}`,
+      );
+    } catch (err: any) {
+      status.done = true;
+      status.lastError = err?.message ?? String(err);
+      this.logger.error(
+        `Enrichment backfill error for ${status.id}:`,
+        err?.stack,
+      );
+    }
+  }
+}
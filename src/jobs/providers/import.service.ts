@@ -1,26 +1,90 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { In, Repository } from 'typeorm';
 import { JobPosting } from '../../entities/job-posting.entity';
-import { parse } from 'csv-parse/sync';
-import { randomUUID } from 'crypto';
-
-interface ImportStatus {
+import { ImportJob } from '../../entities/import-job.entity';
+import { createReadStream } from 'fs';
+import { unlink } from 'fs/promises';
+import { enrichPosting } from '../enrichment/enrich';
+import {
+  ImportFormat,
+  ImportRecord,
+  readImportRecords,
+} from '../imports/formats';
+import { applyMapping, MappingRules } from '../imports/mapping';
+import {
+  DRY_RUN_LOOKUP_SIZE,
+  DryRunProblem,
+  DryRunReport,
+  DryRunSummary,
+  MAX_DRY_RUN_PROBLEMS,
+  scoreProblem,
+} from '../imports/dry-run';
+
+export interface ImportStatus {
   id: string;
+  state: ImportState;
+  format: ImportFormat;
+  fileName: string | null;
+  // Name of the column mapping profile applied to every record
+  mappingProfile: string | null;
+  // Records parsed so far; final once totalKnown is true
   total: number;
+  totalKnown: boolean;
   processed: number;
   inserted: number;
   skipped: number;
   failed: number;
   done: boolean;
+  // Times the import was resumed after a restart
+  resumed: number;
   startedAt: number;
+  finishedAt: number | null;
   lastError?: string;
 }
 
+export interface ImportFile {
+  path: string;
+  name?: string | null;
+  // Remove the file once the import ends (uploads, not bundled files)
+  deleteWhenDone: boolean;
+}
+
+export const IMPORT_STATES = ['running', 'completed', 'failed'] as const;
+export type ImportState = (typeof IMPORT_STATES)[number];
+
+export const DEFAULT_IMPORT_LIST_LIMIT = 20;
+export const MAX_IMPORT_LIST_LIMIT = 100;
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function toStatus(job: ImportJob): ImportStatus {
+  return {
+    id: job.id,
+    state: job.state as ImportState,
+    format: job.format as ImportFormat,
+    fileName: job.file_name ?? null,
+    mappingProfile: job.mapping_profile ?? null,
+    total: job.total,
+    totalKnown: job.total_known,
+    processed: job.processed,
+    inserted: job.inserted,
+    skipped: job.skipped,
+    failed: job.failed,
+    done: job.state !== 'running',
+    resumed: job.resumed,
+    startedAt: new Date(job.created_at).getTime(),
+    finishedAt: job.finished_at ? new Date(job.finished_at).getTime() : null,
+    ...(job.last_error ? { lastError: job.last_error } : {}),
+  };
+}
+
 @Injectable()
-export class ImportService {
+export class ImportService implements OnModuleInit {
   private readonly logger = new Logger(ImportService.name);
-  private readonly statuses = new Map<string, ImportStatus>();
+  private readonly completionListeners: ((status: ImportStatus) => unknown)[] =
+    [];
   // Multiple email patterns for better coverage
   private readonly emailPatterns = [
     // Pattern 1: Standard email with word boundaries
@@ -34,8 +98,36 @@ export class ImportService {
   constructor(
     @InjectRepository(JobPosting)
     private readonly jobPostingRepo: Repository<JobPosting>,
+    @InjectRepository(ImportJob)
+    private readonly importJobRepo: Repository<ImportJob>,
   ) {}
 
+  /**
+   * Pick up imports a restart or deploy interrupted, from their cursor.
+   * Assumes a single instance runs imports.
+   */
+  async onModuleInit() {
+    try {
+      const unfinished = await this.importJobRepo.find({
+        where: { state: 'running' },
+        order: { created_at: 'ASC' },
+      });
+      for (const job of unfinished) {
+        job.resumed++;
+        await this.importJobRepo.update(
+          { id: job.id },
+          { resumed: job.resumed },
+        );
+        this.logger.log(
+          `Resuming import ${job.id} at record ${job.processed} (${job.file_name ?? job.file_path})`,
+        );
+        void this.runImport(job);
+      }
+    } catch (err: any) {
+      this.logger.error(`Failed to resume imports: ${err?.message}`);
+    }
+  }
+
   private isValidEmail(email: string): boolean {
     if (!email || email.length < 5) return false;
 
@@ -121,156 +213,386 @@ export class ImportService {
     };
   }
 
-  startCsvImport(
-    fileBuffer: Buffer,
-    opts?: { batchSize?: number; intervalMs?: number; idColumn?: string },
+  /**
+   * Register a callback run after every import finishes (e.g. saved search alerts)
+   */
+  onImportCompleted(listener: (status: ImportStatus) => unknown) {
+    this.completionListeners.push(listener);
+  }
+
+  private notifyCompleted(status: ImportStatus) {
+    for (const listener of this.completionListeners) {
+      Promise.resolve()
+        .then(() => listener(status))
+        .catch((err: any) =>
+          this.logger.error(
+            `Import completion listener failed for ${status.id}: ${err?.message}`,
+          ),
+        );
+    }
+  }
+
+  /**
+   * Import a file (CSV, NDJSON, JSON array or XLSX) in the background as a
+   * stream: records are parsed as the file is read and upserted batch by
+   * batch, and the file is only read further once a batch is stored
+   * (backpressure), so memory stays flat for any file size (XLSX excepted, see
+   * imports/xlsx). The job and its cursor are stored in import_jobs after
+   * every batch, so an interrupted import resumes where it stopped.
+   */
+  async startImport(
+    file: ImportFile,
+    opts?: {
+      format?: ImportFormat;
+      mapping?: MappingRules & { name: string };
+      batchSize?: number;
+      intervalMs?: number;
+      idColumn?: string;
+    },
   ) {
-    const batchSize = opts?.batchSize ?? 30;
-    const intervalMs = opts?.intervalMs ?? 5000;
-    const idColumn = opts?.idColumn ?? 'job_posting_id';
-
-    const id = randomUUID();
-    const status: ImportStatus = {
-      id,
-      total: 0,
-      processed: 0,
-      inserted: 0,
-      skipped: 0,
-      failed: 0,
-      done: false,
-      startedAt: Date.now(),
-    };
-    this.statuses.set(id, status);
+    const job = await this.importJobRepo.save(
+      this.importJobRepo.create({
+        state: 'running',
+        format: opts?.format ?? 'csv',
+        file_name: file.name ?? null,
+        file_path: file.path,
+        delete_file: file.deleteWhenDone,
+        id_column: opts?.idColumn ?? 'job_posting_id',
+        batch_size: opts?.batchSize ?? 30,
+        interval_ms: opts?.intervalMs ?? 5000,
+        mapping_profile: opts?.mapping?.name ?? null,
+        mapping: opts?.mapping
+          ? {
+              columns: opts.mapping.columns,
+              keepUnmapped: opts.mapping.keepUnmapped,
+            }
+          : null,
+      }),
+    );
+
+    void this.runImport(job);
 
+    return { importId: job.id };
+  }
+
+  /**
+   * Read the job's file from the start, skipping the records before its
+   * cursor (batches are upserts, so redoing the last one after a crash is safe)
+   */
+  private async runImport(job: ImportJob) {
+    const source = createReadStream(job.file_path);
+    const skip = job.processed + job.failed;
+    let read = 0;
+    let batch: Record<string, string>[] = [];
     try {
-      const records = parse(fileBuffer, {
-        columns: true,
-        skip_empty_lines: true,
-        trim: true,
-      }) as Record<string, string>[];
-
-      status.total = records.length;
-      this.logger.log(`Parsed ${records.length} records for import ${id}`);
-
-      let cursor = 0;
-      const runBatch = async () => {
-        if (cursor >= records.length) {
-          status.done = true;
-          this.logger.log(
-            `Import ${id} completed: inserted=${status.inserted} skipped=${status.skipped} failed=${status.failed}`,
-          );
-          return;
+      for await (const record of readImportRecords(
+        source,
+        job.format as ImportFormat,
+      )) {
+        read++;
+        job.total = Math.max(job.total, read);
+        if (read <= skip) continue;
+        batch.push(job.mapping ? applyMapping(record, job.mapping) : record);
+        if (batch.length >= job.batch_size) {
+          await this.importBatch(batch, job, job.id_column);
+          await this.saveProgress(job);
+          batch = [];
+          await new Promise((resolve) => setTimeout(resolve, job.interval_ms));
         }
+      }
+      job.total = read;
+      job.total_known = true;
+      this.logger.log(`Parsed ${job.total} records for import ${job.id}`);
+      if (batch.length > 0) {
+        await this.importBatch(batch, job, job.id_column);
+      }
+    } catch (err: any) {
+      job.last_error = err?.message ?? String(err);
+      this.logger.error(
+        `${job.format.toUpperCase()} parse error for import ${job.id}`,
+        err?.stack,
+      );
+      source.destroy();
+      await this.finish(job, 'failed');
+      return;
+    }
 
-        const slice = records.slice(cursor, cursor + batchSize);
-        cursor += slice.length;
+    await this.finish(job, 'completed');
+    this.logger.log(
+      `Import ${job.id} completed: inserted=${job.inserted} skipped=${job.skipped} failed=${job.failed}`,
+    );
+    this.notifyCompleted(toStatus(job));
+  }
 
-        try {
-          const prepared = slice
-            .map((r) => {
-              const v = r[idColumn];
-              if (!v) return null;
-
-              const jobSummary = r.job_summary;
-              const { isEmailAvailable, resume_email } =
-                this.extractEmail(jobSummary);
-
-              return {
-                job_posting_id: String(v),
-                data: r,
-                isEmailAvailable,
-                resume_email,
-              } as Partial<JobPosting>;
-            })
-            .filter(Boolean) as Partial<JobPosting>[];
-
-          if (prepared.length > 0) {
-            const ids = prepared.map((e) => e.job_posting_id as string);
-            const existing = await this.jobPostingRepo.find({
-              where: { job_posting_id: In(ids) },
-              select: ['job_posting_id', 'isEmailAvailable', 'resume_email'],
-            });
-            const existingSet = new Set(existing.map((e) => e.job_posting_id));
-            const newOnes = prepared.filter(
-              (e) => !existingSet.has(e.job_posting_id as string),
-            );
-            const toUpdate = prepared.filter((e) =>
-              existingSet.has(e.job_posting_id as string),
-            );
-
-            // Insert new records
-            if (newOnes.length > 0) {
-              await this.jobPostingRepo
-                .createQueryBuilder()
-                .insert()
-                .into(JobPosting)
-                .values(newOnes)
-                .execute();
-              status.inserted += newOnes.length;
-            }
+  private async saveProgress(job: ImportJob) {
+    try {
+      await this.importJobRepo.update(
+        { id: job.id },
+        {
+          state: job.state,
+          total: job.total,
+          total_known: job.total_known,
+          processed: job.processed,
+          inserted: job.inserted,
+          skipped: job.skipped,
+          failed: job.failed,
+          last_error: job.last_error ?? null,
+          finished_at: job.finished_at ?? null,
+        },
+      );
+    } catch (err: any) {
+      // Stored batches are upserts, so a stale cursor only means redoing one
+      this.logger.warn(
+        `Failed to save progress of import ${job.id}: ${err?.message}`,
+      );
+    }
+  }
+
+  private async finish(job: ImportJob, state: 'completed' | 'failed') {
+    job.state = state;
+    job.finished_at = new Date();
+    await this.saveProgress(job);
+    if (job.delete_file) {
+      await unlink(job.file_path).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Insert new postings and update existing ones (matched by idColumn)
+   */
+  private async importBatch(
+    slice: Record<string, string>[],
+    status: ImportJob,
+    idColumn: string,
+  ) {
+    try {
+      const prepared = slice
+        .map((r) => {
+          const v = r[idColumn];
+          if (!v) return null;
+
+          const jobSummary = r.job_summary;
+          const { isEmailAvailable, resume_email } =
+            this.extractEmail(jobSummary);
+
+          return {
+            job_posting_id: String(v),
+            data: r,
+            isEmailAvailable,
+            resume_email,
+            ...enrichPosting(r),
+          } as Partial<JobPosting>;
+        })
+        .filter(Boolean) as Partial<JobPosting>[];
+
+      if (prepared.length > 0) {
+        const ids = prepared.map((e) => e.job_posting_id as string);
+        const existing = await this.jobPostingRepo.find({
+          where: { job_posting_id: In(ids) },
+          select: ['job_posting_id', 'isEmailAvailable', 'resume_email'],
+        });
+        const existingSet = new Set(existing.map((e) => e.job_posting_id));
+        const newOnes = prepared.filter(
+          (e) => !existingSet.has(e.job_posting_id as string),
+        );
+        const toUpdate = prepared.filter((e) =>
+          existingSet.has(e.job_posting_id as string),
+        );
+
+        // Insert new records
+        if (newOnes.length > 0) {
+          await this.jobPostingRepo
+            .createQueryBuilder()
+            .insert()
+            .into(JobPosting)
+            .values(newOnes)
+            .execute();
+          status.inserted += newOnes.length;
+        }
 
-            // Update existing records with email information
-            if (toUpdate.length > 0) {
-              // Use save() for batch updates (more efficient than individual updates)
-              const existingRecords = await this.jobPostingRepo.find({
-                where: {
-                  job_posting_id: In(toUpdate.map((r) => r.job_posting_id)),
-                },
-              });
-
-              const existingMap = new Map(
-                existingRecords.map((r) => [r.job_posting_id, r]),
-              );
-
-              const recordsToSave = toUpdate
-                .map((record) => {
-                  const existing = existingMap.get(
-                    record.job_posting_id as string,
-                  );
-                  if (existing) {
-                    existing.data = record.data;
-                    existing.isEmailAvailable = record.isEmailAvailable;
-                    existing.resume_email = record.resume_email;
-                    return existing;
-                  }
-                  return null;
-                })
-                .filter(Boolean) as JobPosting[];
-
-              if (recordsToSave.length > 0) {
-                await this.jobPostingRepo.save(recordsToSave);
+        // Update existing records with email information
+        if (toUpdate.length > 0) {
+          // Use save() for batch updates (more efficient than individual updates)
+          const existingRecords = await this.jobPostingRepo.find({
+            where: {
+              job_posting_id: In(toUpdate.map((r) => r.job_posting_id)),
+            },
+          });
+
+          const existingMap = new Map(
+            existingRecords.map((r) => [r.job_posting_id, r]),
+          );
+
+          const recordsToSave = toUpdate
+            .map((record) => {
+              const existing = existingMap.get(record.job_posting_id as string);
+              if (existing) {
+                existing.data = record.data;
+                existing.isEmailAvailable = record.isEmailAvailable;
+                existing.resume_email = record.resume_email;
+                Object.assign(existing, enrichPosting(record.data ?? {}));
+                return existing;
               }
-              status.inserted += toUpdate.length;
-            }
+              return null;
+            })
+            .filter(Boolean) as JobPosting[];
 
-            status.skipped = 0; // We're updating existing records, not skipping
+          if (recordsToSave.length > 0) {
+            await this.jobPostingRepo.save(recordsToSave);
           }
+          status.inserted += toUpdate.length;
+        }
+
+        status.skipped = 0; // We're updating existing records, not skipping
+      }
+
+      status.processed += slice.length;
+    } catch (err: any) {
+      status.failed += slice.length;
+      status.last_error = err?.message ?? String(err);
+      this.logger.error(
+        `Batch failed for import ${status.id}: ${status.last_error}`,
+      );
+    }
+  }
+
+  /**
+   * Read a whole file and report what importing it would do (inserts vs
+   * updates, and per-record problems) without writing anything
+   */
+  async dryRun(
+    path: string,
+    opts: { format: ImportFormat; mapping?: MappingRules; idColumn: string },
+  ): Promise<DryRunReport> {
+    const summary: DryRunSummary = {
+      records: 0,
+      inserts: 0,
+      updates: 0,
+      missingId: 0,
+      duplicateId: 0,
+      noEmail: 0,
+      invalidScore: 0,
+    };
+    const problems: DryRunProblem[] = [];
+    let problemsTruncated = false;
+    const report = (problem: DryRunProblem) => {
+      if (problems.length < MAX_DRY_RUN_PROBLEMS) problems.push(problem);
+      else problemsTruncated = true;
+    };
+
+    // Record number of the first occurrence of every id
+    const seen = new Map<string, number>();
+    let pendingIds: string[] = [];
+    const lookUp = async () => {
+      const existing = await this.jobPostingRepo.find({
+        where: { job_posting_id: In(pendingIds) },
+        select: ['job_posting_id'],
+      });
+      summary.updates += existing.length;
+      summary.inserts += pendingIds.length - existing.length;
+      pendingIds = [];
+    };
 
-          status.processed += slice.length;
+    const source = createReadStream(path);
+    const records = readImportRecords(source, opts.format)[
+      Symbol.asyncIterator
+    ]();
+    let complete = true;
+    try {
+      for (;;) {
+        // Only reading the file can end the report with a parse_error;
+        // database errors fail the request
+        let next: IteratorResult<ImportRecord>;
+        try {
+          next = await records.next();
         } catch (err: any) {
-          status.failed += slice.length;
-          status.lastError = err?.message ?? String(err);
-          this.logger.error(
-            `Batch failed for import ${id}: ${status.lastError}`,
-          );
+          // Everything after the error would not be imported either
+          complete = false;
+          problems.push({
+            record: null,
+            id: null,
+            code: 'parse_error',
+            detail: `stopped after record ${summary.records}: ${err?.message ?? String(err)}`,
+          });
+          break;
+        }
+        if (next.done) break;
+        const raw = next.value;
+        const record = opts.mapping ? applyMapping(raw, opts.mapping) : raw;
+        const number = ++summary.records;
+        const id = record[opts.idColumn] ? String(record[opts.idColumn]) : '';
+
+        if (!id) {
+          summary.missingId++;
+          report({
+            record: number,
+            id: null,
+            code: 'missing_id',
+            detail: `${opts.idColumn} is empty`,
+          });
+        } else if (seen.has(id)) {
+          summary.duplicateId++;
+          report({
+            record: number,
+            id,
+            code: 'duplicate_id',
+            detail: `same id as record ${seen.get(id)}`,
+          });
+        } else {
+          seen.set(id, number);
+          pendingIds.push(id);
+          if (pendingIds.length >= DRY_RUN_LOOKUP_SIZE) await lookUp();
         }
 
-        setTimeout(runBatch, intervalMs);
-      };
+        if (!this.extractEmail(record.job_summary).isEmailAvailable) {
+          summary.noEmail++;
+          report({
+            record: number,
+            id: id || null,
+            code: 'no_email',
+            detail: 'no email address found in job_summary',
+          });
+        }
 
-      void runBatch();
-    } catch (err: any) {
-      status.done = true;
-      status.lastError = err?.message ?? String(err);
-      this.logger.error(`CSV parse error for import ${id}`, err?.stack);
+        const score = scoreProblem(record['Suitability Score']);
+        if (score) {
+          summary.invalidScore++;
+          report({
+            record: number,
+            id: id || null,
+            code: 'invalid_score',
+            detail: `Suitability Score ${score}`,
+          });
+        }
+      }
+    } finally {
+      source.destroy();
     }
+    if (pendingIds.length > 0) await lookUp();
+
+    return { complete, summary, problems, problemsTruncated };
+  }
 
-    return { importId: id };
+  async getStatus(importId: string) {
+    if (!UUID_PATTERN.test(importId)) return { error: 'not_found' };
+    const job = await this.importJobRepo.findOne({ where: { id: importId } });
+    if (!job) return { error: 'not_found' };
+    return toStatus(job);
   }
 
-  getStatus(importId: string) {
-    const s = this.statuses.get(importId);
-    if (!s) return { error: 'not_found' };
-    return s;
+  /**
+   * Past and running imports, newest first
+   */
+  async list(opts: { state?: string; limit?: number; offset?: number } = {}) {
+    const [jobs, total] = await this.importJobRepo.findAndCount({
+      where: opts.state ? { state: opts.state } : {},
+      order: { created_at: 'DESC' },
+      take: Math.min(
+        opts.limit ?? DEFAULT_IMPORT_LIST_LIMIT,
+        MAX_IMPORT_LIST_LIMIT,
+      ),
+      skip: opts.offset ?? 0,
+    });
+    return { total, imports: jobs.map(toStatus) };
   }
 }
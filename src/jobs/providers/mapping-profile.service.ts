@@ -0,0 +1,132 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ImportMappingProfile } from '../../entities/import-mapping-profile.entity';
+import { MappingRules, parseColumnMappings } from '../imports/mapping';
+
+export interface MappingProfileInput {
+  name?: string;
+  description?: string | null;
+  columns?: unknown;
+  keepUnmapped?: boolean;
+}
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_NAME_LENGTH = 100;
+
+@Injectable()
+export class MappingProfileService {
+  private readonly logger = new Logger(MappingProfileService.name);
+
+  constructor(
+    @InjectRepository(ImportMappingProfile)
+    private readonly profileRepo: Repository<ImportMappingProfile>,
+  ) {}
+
+  private parseName(value: string | undefined): string {
+    const name = (value ?? '').trim();
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      throw new BadRequestException(
+        `name 값이 필요합니다 (최대 ${MAX_NAME_LENGTH}자).`,
+      );
+    }
+    return name;
+  }
+
+  private parseColumns(value: unknown) {
+    try {
+      return parseColumnMappings(value);
+    } catch (err: any) {
+      throw new BadRequestException(
+        `컬럼 매핑이 올바르지 않습니다: ${err?.message}`,
+      );
+    }
+  }
+
+  private async assertNameFree(name: string, exceptId?: string) {
+    const existing = await this.profileRepo.findOne({ where: { name } });
+    if (existing && existing.id !== exceptId) {
+      throw new BadRequestException(
+        `이미 존재하는 매핑 프로필 이름입니다: ${name}`,
+      );
+    }
+  }
+
+  async create(input: MappingProfileInput) {
+    const name = this.parseName(input.name);
+    const columns = this.parseColumns(input.columns);
+    await this.assertNameFree(name);
+
+    const saved = await this.profileRepo.save(
+      this.profileRepo.create({
+        name,
+        description: input.description?.trim() || null,
+        columns,
+        keep_unmapped: input.keepUnmapped ?? true,
+      }),
+    );
+    this.logger.log(`Mapping profile ${saved.id} (${name}) created`);
+    return saved;
+  }
+
+  list() {
+    return this.profileRepo.find({ order: { name: 'ASC' } });
+  }
+
+  /**
+   * Profile by id or by name
+   */
+  async get(idOrName: string) {
+    const key = idOrName.trim();
+    const profile = await this.profileRepo.findOne({
+      where: UUID_PATTERN.test(key) ? { id: key } : { name: key },
+    });
+    if (!profile) {
+      throw new NotFoundException(`매핑 프로필을 찾을 수 없습니다: ${key}`);
+    }
+    return profile;
+  }
+
+  async update(id: string, input: MappingProfileInput) {
+    const profile = await this.get(id);
+    if (input.name !== undefined) {
+      const name = this.parseName(input.name);
+      await this.assertNameFree(name, profile.id);
+      profile.name = name;
+    }
+    if (input.description !== undefined) {
+      profile.description = input.description?.trim() || null;
+    }
+    if (input.columns !== undefined) {
+      profile.columns = this.parseColumns(input.columns);
+    }
+    if (input.keepUnmapped !== undefined) {
+      profile.keep_unmapped = input.keepUnmapped;
+    }
+    return this.profileRepo.save(profile);
+  }
+
+  async delete(id: string) {
+    const profile = await this.get(id);
+    await this.profileRepo.delete({ id: profile.id });
+    return { deleted: true };
+  }
+
+  /**
+   * Rules an import applies, from the profile with this id or name
+   */
+  async rules(idOrName: string): Promise<MappingRules & { name: string }> {
+    const profile = await this.get(idOrName);
+    return {
+      name: profile.name,
+      columns: profile.columns,
+      keepUnmapped: profile.keep_unmapped,
+    };
+  }
+}
@@ -0,0 +1,234 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { SavedSearch } from '../../entities/saved-search.entity';
+import { EmailService } from './email.service';
+import {
+  ALERT_FREQUENCIES,
+  AlertFrequency,
+  isDigestDue,
+  parseSavedSearchParams,
+} from '../alerts/saved-search';
+import { DigestPosting, renderDigest } from '../alerts/digest';
+
+export interface SavedSearchInput {
+  email?: string;
+  name?: string | null;
+  frequency?: string;
+  active?: boolean;
+  params?: unknown;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+@Injectable()
+export class SavedSearchService {
+  private readonly logger = new Logger(SavedSearchService.name);
+
+  constructor(
+    @InjectRepository(SavedSearch)
+    private readonly savedSearchRepo: Repository<SavedSearch>,
+    private readonly emailService: EmailService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  private parseFrequency(value: string | undefined): AlertFrequency {
+    const frequency = (value ?? 'daily').trim().toLowerCase();
+    if (!ALERT_FREQUENCIES.includes(frequency as AlertFrequency)) {
+      throw new BadRequestException(
+        `frequency는 ${ALERT_FREQUENCIES.join(', ')} 중 하나여야 합니다.`,
+      );
+    }
+    return frequency as AlertFrequency;
+  }
+
+  private parseParams(value: unknown) {
+    try {
+      return parseSavedSearchParams(value);
+    } catch (err: any) {
+      throw new BadRequestException(
+        `검색 조건이 올바르지 않습니다: ${err?.message}`,
+      );
+    }
+  }
+
+  async create(input: SavedSearchInput) {
+    const email = (input.email ?? '').trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(email)) {
+      throw new BadRequestException('올바른 email 값이 필요합니다.');
+    }
+
+    const saved = await this.savedSearchRepo.save(
+      this.savedSearchRepo.create({
+        email,
+        name: input.name?.trim() || null,
+        params: this.parseParams(input.params),
+        frequency: this.parseFrequency(input.frequency),
+        active: true,
+        unsubscribe_token: randomBytes(24).toString('hex'),
+        // Only postings imported after saving are alerted on
+        last_checked_at: new Date(),
+      }),
+    );
+    this.logger.log(`Saved search ${saved.id} created for ${email}`);
+    return saved;
+  }
+
+  /**
+   * Searches of an email address, without their unsubscribe tokens (the token
+   * is what proves ownership for update and delete)
+   */
+  listByEmail(email: string) {
+    return this.savedSearchRepo.find({
+      where: { email: email.trim().toLowerCase() },
+      select: [
+        'id',
+        'email',
+        'name',
+        'params',
+        'frequency',
+        'active',
+        'last_checked_at',
+        'last_sent_at',
+        'created_at',
+        'updated_at',
+      ],
+      order: { created_at: 'DESC' },
+    });
+  }
+
+  /**
+   * The search, if the token is its unsubscribe token (returned on create
+   * and linked from every digest)
+   */
+  private async findOwned(id: string, token: string | undefined) {
+    const search = UUID_PATTERN.test(id)
+      ? await this.savedSearchRepo.findOne({ where: { id } })
+      : null;
+    if (!search) throw new NotFoundException('저장된 검색을 찾을 수 없습니다.');
+    const expected = Buffer.from(search.unsubscribe_token);
+    const given = Buffer.from(token ?? '');
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      throw new ForbiddenException('저장된 검색의 token이 올바르지 않습니다.');
+    }
+    return search;
+  }
+
+  async update(id: string, token: string | undefined, input: SavedSearchInput) {
+    const search = await this.findOwned(id, token);
+
+    if (input.name !== undefined) search.name = input.name?.trim() || null;
+    if (input.frequency !== undefined) {
+      search.frequency = this.parseFrequency(input.frequency);
+    }
+    if (input.params !== undefined) {
+      search.params = this.parseParams(input.params);
+    }
+    if (input.active !== undefined) {
+      // Resuming does not replay what was missed while paused
+      if (input.active && !search.active) search.last_checked_at = new Date();
+      search.active = input.active;
+    }
+    return this.savedSearchRepo.save(search);
+  }
+
+  async delete(id: string, token: string | undefined) {
+    const search = await this.findOwned(id, token);
+    await this.savedSearchRepo.delete({ id: search.id });
+    return { deleted: true };
+  }
+
+  /**
+   * One-click unsubscribe from the digest link
+   */
+  async unsubscribe(token: string) {
+    const search = await this.savedSearchRepo.findOne({
+      where: { unsubscribe_token: token },
+    });
+    if (!search) {
+      throw new NotFoundException('알 수 없는 구독 해지 링크입니다.');
+    }
+    if (search.active) {
+      search.active = false;
+      await this.savedSearchRepo.save(search);
+      this.logger.log(`Saved search ${search.id} unsubscribed`);
+    }
+    return { unsubscribed: true, name: search.name ?? null };
+  }
+
+  /**
+   * Active searches due for a digest. After an import every due search runs;
+   * the periodic tick only runs daily/weekly ones (instant ones follow imports).
+   */
+  async findDue(trigger: 'import' | 'schedule', now: Date) {
+    const active = await this.savedSearchRepo.find({
+      where: { active: true },
+      order: { created_at: 'ASC' },
+    });
+    return active.filter(
+      (s) =>
+        (trigger === 'import' || s.frequency !== 'instant') &&
+        isDigestDue(s.frequency as AlertFrequency, s.last_sent_at, now),
+    );
+  }
+
+  /**
+   * Email the digest (if there is anything new) and move the watermark
+   */
+  async deliver(
+    search: SavedSearch,
+    checkedAt: Date,
+    postings: DigestPosting[],
+    total: number,
+  ): Promise<boolean> {
+    let sent = false;
+    if (total > 0) {
+      const email = renderDigest({
+        searchName: search.name,
+        params: search.params,
+        postings,
+        total,
+        unsubscribeUrl: this.unsubscribeUrl(search.unsubscribe_token),
+      });
+      sent = await this.emailService.sendEmail({
+        to: search.email,
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+        fromName: 'Job Alerts',
+      });
+      if (!sent) {
+        // Keep the watermark so the same postings are retried next run
+        this.logger.warn(`Digest for saved search ${search.id} failed to send`);
+        return false;
+      }
+    }
+
+    await this.savedSearchRepo.update(
+      { id: search.id },
+      {
+        last_checked_at: checkedAt,
+        ...(sent ? { last_sent_at: checkedAt } : {}),
+      },
+    );
+    return sent;
+  }
+
+  private unsubscribeUrl(token: string): string {
+    const base = (
+      this.configService.get<string>('PUBLIC_BASE_URL') ??
+      `http://localhost:${process.env.PORT ?? 3000}`
+    ).replace(/\/+$/, '');
+    return `${base}/jobs/saved-searches/unsubscribe/${token}`;
+  }
+}
@@ -0,0 +1,146 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { SearchEvent } from '../../entities/search-event.entity';
+import { VocabularyService } from './vocabulary.service';
+import {
+  AnalyticsReport,
+  DEFAULT_REPORT_DAYS,
+  DEFAULT_REPORT_LIMIT,
+  MAX_REPORT_DAYS,
+  MAX_REPORT_LIMIT,
+  vocabularyCoverage,
+} from '../search/analytics';
+
+export interface SearchEventInput {
+  id: string;
+  query: string | null;
+  location: string | null;
+  filters: Record<string, unknown>;
+  resultCount: number | null;
+  returnedCount: number;
+  firstPage: boolean;
+  latencyMs: number;
+}
+
+interface QueryStatsRow {
+  query: string;
+  searches: string;
+  zero_results: string;
+  clicks: string;
+  avg_results: string | null;
+  avg_latency_ms: string | null;
+  last_searched_at: Date;
+}
+
+@Injectable()
+export class SearchAnalyticsService {
+  private readonly logger = new Logger(SearchAnalyticsService.name);
+
+  constructor(
+    @InjectRepository(SearchEvent)
+    private readonly searchEventRepo: Repository<SearchEvent>,
+    private readonly vocabulary: VocabularyService,
+  ) {}
+
+  /**
+   * Store a search in the background; a failed insert never fails the search
+   */
+  record(event: SearchEventInput) {
+    this.searchEventRepo
+      .insert({
+        id: event.id,
+        query: event.query,
+        location: event.location,
+        filters: event.filters,
+        result_count: event.resultCount,
+        returned_count: event.returnedCount,
+        first_page: event.firstPage,
+        latency_ms: event.latencyMs,
+      })
+      .catch((err: any) =>
+        this.logger.warn(
+          `Failed to record search ${event.id}: ${err?.message}`,
+        ),
+      );
+  }
+
+  async recordClick(searchId: string) {
+    const result = await this.searchEventRepo.increment(
+      { id: searchId },
+      'clicks',
+      1,
+    );
+    if (!result.affected)
+      throw new NotFoundException('존재하지 않는 searchId입니다.');
+    return { recorded: true };
+  }
+
+  /**
+   * Per-query stats over first-page searches of the last `days` days.
+   * top: most searched; zero-results: queries that found nothing;
+   * no-clicks: queries that found postings nobody clicked.
+   */
+  async report(
+    report: AnalyticsReport,
+    opts: { days?: number; limit?: number } = {},
+  ) {
+    const days = Math.min(
+      Math.max(opts.days ?? DEFAULT_REPORT_DAYS, 1),
+      MAX_REPORT_DAYS,
+    );
+    const limit = Math.min(
+      Math.max(opts.limit ?? DEFAULT_REPORT_LIMIT, 1),
+      MAX_REPORT_LIMIT,
+    );
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const qb = this.searchEventRepo
+      .createQueryBuilder('se')
+      .select('se.query', 'query')
+      .addSelect('COUNT(*)', 'searches')
+      .addSelect(
+        'SUM(CASE WHEN se.returned_count = 0 THEN 1 ELSE 0 END)',
+        'zero_results',
+      )
+      .addSelect('SUM(se.clicks)', 'clicks')
+      .addSelect('AVG(se.result_count)', 'avg_results')
+      .addSelect('AVG(se.latency_ms)', 'avg_latency_ms')
+      .addSelect('MAX(se.created_at)', 'last_searched_at')
+      .where('se.first_page IS TRUE')
+      .andWhere('se.query IS NOT NULL')
+      .andWhere('se.created_at >= :since', { since })
+      .groupBy('se.query');
+
+    if (report === 'zero-results') {
+      qb.having('SUM(CASE WHEN se.returned_count = 0 THEN 1 ELSE 0 END) > 0')
+        .orderBy('zero_results', 'DESC')
+        .addOrderBy('searches', 'DESC');
+    } else if (report === 'no-clicks') {
+      qb.having('SUM(se.clicks) = 0')
+        .andHaving('MAX(se.returned_count) > 0')
+        .orderBy('searches', 'DESC');
+    } else {
+      qb.orderBy('searches', 'DESC');
+    }
+    qb.addOrderBy('query', 'ASC').limit(limit);
+
+    const rows: QueryStatsRow[] = await qb.getRawMany();
+    const vocabulary = this.vocabulary.getVocabulary();
+    const queries = rows.map((r) => ({
+      query: r.query,
+      searches: Number(r.searches),
+      zeroResults: Number(r.zero_results),
+      clicks: Number(r.clicks),
+      avgResults:
+        r.avg_results !== null ? Math.round(Number(r.avg_results)) : null,
+      avgLatencyMs:
+        r.avg_latency_ms !== null ? Math.round(Number(r.avg_latency_ms)) : null,
+      lastSearchedAt: r.last_searched_at,
+      // Zero/no-click queries that are not titles or synonyms yet are the
+      // candidates for the vocabulary
+      ...(report !== 'top' ? vocabularyCoverage(r.query, vocabulary) : {}),
+    }));
+    return { report, days, since, queries };
+  }
+}
@@ -0,0 +1,348 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { SynonymGroup } from '../../entities/synonym-group.entity';
+import { JobTitle } from '../../entities/job-title.entity';
+import { TitleMapping } from '../../entities/title-mapping.entity';
+import {
+  DEFAULT_VOCABULARY,
+  normalizeKey,
+  normalizeList,
+  parseVocabularyDocument,
+  Vocabulary,
+  VOCABULARY_EXPORT_VERSION,
+  VocabularyDocument,
+} from '../search/vocabulary';
+import { buildVocabulary } from '../search/trigram';
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface SynonymGroupInput {
+  key?: string;
+  terms?: string[];
+  bidirectional?: boolean;
+}
+
+@Injectable()
+export class VocabularyService implements OnModuleInit {
+  private readonly logger = new Logger(VocabularyService.name);
+  // Served to every search; replaced wholesale on reload
+  private cache: Vocabulary = DEFAULT_VOCABULARY;
+  private correctionWords =
+    VocabularyService.toCorrectionWords(DEFAULT_VOCABULARY);
+
+  constructor(
+    @InjectRepository(SynonymGroup)
+    private readonly synonymRepo: Repository<SynonymGroup>,
+    @InjectRepository(JobTitle)
+    private readonly jobTitleRepo: Repository<JobTitle>,
+    @InjectRepository(TitleMapping)
+    private readonly titleMappingRepo: Repository<TitleMapping>,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.seedDefaults();
+      await this.reload();
+    } catch (err: any) {
+      // Keep serving the built-in defaults if the tables are unavailable
+      this.logger.error(
+        `Failed to load vocabulary, using defaults: ${err?.message}`,
+      );
+    }
+  }
+
+  getVocabulary(): Vocabulary {
+    return this.cache;
+  }
+
+  /**
+   * Words typo correction can map onto (job titles and synonym keys)
+   */
+  getCorrectionWords(): Set<string> {
+    return this.correctionWords;
+  }
+
+  /**
+   * Reload the cache from the database
+   */
+  async reload(): Promise<Vocabulary> {
+    const [groups, titles, mappings] = await Promise.all([
+      this.synonymRepo.find({ order: { key: 'ASC' } }),
+      this.jobTitleRepo.find({ order: { created_at: 'ASC', title: 'ASC' } }),
+      this.titleMappingRepo.find({ order: { keyword: 'ASC' } }),
+    ]);
+
+    const vocabulary: Vocabulary = {
+      synonyms: groups.map((g) => ({
+        key: g.key,
+        terms: g.terms,
+        bidirectional: g.bidirectional,
+      })),
+      jobTitles: titles.map((t) => t.title),
+      titleMappings: Object.fromEntries(
+        mappings.map((m) => [m.keyword, m.titles]),
+      ),
+    };
+    this.cache = vocabulary;
+    this.correctionWords = VocabularyService.toCorrectionWords(vocabulary);
+    this.logger.log(
+      `Vocabulary loaded: ${groups.length} synonym groups, ${titles.length} job titles, ${mappings.length} title mappings`,
+    );
+    return vocabulary;
+  }
+
+  private static toCorrectionWords(vocabulary: Vocabulary): Set<string> {
+    return buildVocabulary([
+      ...vocabulary.jobTitles,
+      ...vocabulary.synonyms.map((s) => s.key),
+    ]);
+  }
+
+  /**
+   * Fill empty tables with the built-in vocabulary (first boot)
+   */
+  private async seedDefaults() {
+    if ((await this.synonymRepo.count()) === 0) {
+      await this.synonymRepo.insert(
+        DEFAULT_VOCABULARY.synonyms.map((s) => ({ ...s })),
+      );
+      this.logger.log('Seeded synonym_groups with default synonyms');
+    }
+    if ((await this.jobTitleRepo.count()) === 0) {
+      await this.jobTitleRepo.insert(
+        DEFAULT_VOCABULARY.jobTitles.map((title) => ({ title })),
+      );
+      this.logger.log('Seeded job_titles with default titles');
+    }
+    if ((await this.titleMappingRepo.count()) === 0) {
+      await this.titleMappingRepo.insert(
+        Object.entries(DEFAULT_VOCABULARY.titleMappings).map(
+          ([keyword, titles]) => ({ keyword, titles }),
+        ),
+      );
+      this.logger.log('Seeded title_mappings with default mappings');
+    }
+  }
+
+  // ----- Synonym groups -----
+
+  listSynonymGroups() {
+    return this.synonymRepo.find({ order: { key: 'ASC' } });
+  }
+
+  async createSynonymGroup(input: SynonymGroupInput) {
+    const key = normalizeKey(input.key ?? '');
+    const terms = normalizeList(input.terms ?? []);
+    if (!key) throw new BadRequestException('key 값이 필요합니다.');
+    if (terms.length === 0) {
+      throw new BadRequestException('terms에는 하나 이상의 용어가 필요합니다.');
+    }
+    if (await this.synonymRepo.findOne({ where: { key } })) {
+      throw new BadRequestException(`이미 존재하는 동의어 그룹입니다: ${key}`);
+    }
+
+    const saved = await this.synonymRepo.save(
+      this.synonymRepo.create({
+        key,
+        terms,
+        bidirectional: input.bidirectional === true,
+      }),
+    );
+    await this.reload();
+    return saved;
+  }
+
+  async updateSynonymGroup(id: string, input: SynonymGroupInput) {
+    const group = UUID_PATTERN.test(id)
+      ? await this.synonymRepo.findOne({ where: { id } })
+      : null;
+    if (!group) throw new NotFoundException('동의어 그룹을 찾을 수 없습니다.');
+
+    if (input.key !== undefined) {
+      const key = normalizeKey(input.key);
+      if (!key) throw new BadRequestException('key는 비어 있을 수 없습니다.');
+      const clash = await this.synonymRepo.findOne({ where: { key } });
+      if (clash && clash.id !== id) {
+        throw new BadRequestException(
+          `이미 존재하는 동의어 그룹입니다: ${key}`,
+        );
+      }
+      group.key = key;
+    }
+    if (input.terms !== undefined) {
+      const terms = normalizeList(input.terms);
+      if (terms.length === 0) {
+        throw new BadRequestException(
+          'terms에는 하나 이상의 용어가 필요합니다.',
+        );
+      }
+      group.terms = terms;
+    }
+    if (input.bidirectional !== undefined) {
+      group.bidirectional = input.bidirectional;
+    }
+
+    const saved = await this.synonymRepo.save(group);
+    await this.reload();
+    return saved;
+  }
+
+  async deleteSynonymGroup(id: string) {
+    const result = UUID_PATTERN.test(id)
+      ? await this.synonymRepo.delete({ id })
+      : null;
+    if (!result?.affected) {
+      throw new NotFoundException('동의어 그룹을 찾을 수 없습니다.');
+    }
+    await this.reload();
+    return { deleted: true };
+  }
+
+  // ----- Job titles -----
+
+  listJobTitles() {
+    return this.jobTitleRepo.find({
+      order: { created_at: 'ASC', title: 'ASC' },
+    });
+  }
+
+  async addJobTitle(title: string) {
+    const value = (title ?? '').trim();
+    if (!value) throw new BadRequestException('title 값이 필요합니다.');
+    const existing = await this.jobTitleRepo
+      .createQueryBuilder('t')
+      .where('lower(t.title) = lower(:value)', { value })
+      .getOne();
+    if (existing) {
+      throw new BadRequestException(`이미 존재하는 직무명입니다: ${value}`);
+    }
+
+    const saved = await this.jobTitleRepo.save(
+      this.jobTitleRepo.create({ title: value }),
+    );
+    await this.reload();
+    return saved;
+  }
+
+  async deleteJobTitle(id: string) {
+    const result = UUID_PATTERN.test(id)
+      ? await this.jobTitleRepo.delete({ id })
+      : null;
+    if (!result?.affected) {
+      throw new NotFoundException('직무명을 찾을 수 없습니다.');
+    }
+    await this.reload();
+    return { deleted: true };
+  }
+
+  // ----- Title mappings -----
+
+  listTitleMappings() {
+    return this.titleMappingRepo.find({ order: { keyword: 'ASC' } });
+  }
+
+  /**
+   * Create or replace the titles mapped to a keyword
+   */
+  async upsertTitleMapping(keyword: string, titles: string[]) {
+    const key = normalizeKey(keyword ?? '');
+    const values = normalizeList(titles ?? []);
+    if (!key) throw new BadRequestException('keyword 값이 필요합니다.');
+    if (values.length === 0) {
+      throw new BadRequestException(
+        'titles에는 하나 이상의 직무명이 필요합니다.',
+      );
+    }
+
+    const mapping =
+      (await this.titleMappingRepo.findOne({ where: { keyword: key } })) ??
+      this.titleMappingRepo.create({ keyword: key });
+    mapping.titles = values;
+    const saved = await this.titleMappingRepo.save(mapping);
+    await this.reload();
+    return saved;
+  }
+
+  async deleteTitleMapping(id: string) {
+    const result = UUID_PATTERN.test(id)
+      ? await this.titleMappingRepo.delete({ id })
+      : null;
+    if (!result?.affected) {
+      throw new NotFoundException('직무명 매핑을 찾을 수 없습니다.');
+    }
+    await this.reload();
+    return { deleted: true };
+  }
+
+  // ----- Import / export -----
+
+  async exportDictionary(): Promise<VocabularyDocument> {
+    const vocabulary = await this.reload();
+    return { version: VOCABULARY_EXPORT_VERSION, ...vocabulary };
+  }
+
+  /**
+   * Import a dictionary document.
+   * replace: the document becomes the whole vocabulary.
+   * merge: synonym groups and mappings are upserted by key, titles are added.
+   */
+  async importDictionary(input: unknown, mode: 'replace' | 'merge') {
+    let vocabulary: Vocabulary;
+    try {
+      vocabulary = parseVocabularyDocument(input);
+    } catch (err: any) {
+      throw new BadRequestException(
+        `사전 형식이 올바르지 않습니다: ${err?.message}`,
+      );
+    }
+
+    await this.synonymRepo.manager.transaction(async (manager) => {
+      const synonyms = manager.getRepository(SynonymGroup);
+      const titles = manager.getRepository(JobTitle);
+      const mappings = manager.getRepository(TitleMapping);
+
+      if (mode === 'replace') {
+        await synonyms.clear();
+        await titles.clear();
+        await mappings.clear();
+      }
+
+      if (vocabulary.synonyms.length > 0) {
+        await synonyms.upsert(vocabulary.synonyms, ['key']);
+      }
+
+      const existingTitles = new Set(
+        (await titles.find()).map((t) => t.title.toLowerCase()),
+      );
+      const newTitles = vocabulary.jobTitles.filter(
+        (t) => !existingTitles.has(t.toLowerCase()),
+      );
+      if (newTitles.length > 0) {
+        await titles.insert(newTitles.map((title) => ({ title })));
+      }
+
+      const mappingRows = Object.entries(vocabulary.titleMappings).map(
+        ([keyword, list]) => ({ keyword, titles: list }),
+      );
+      if (mappingRows.length > 0) {
+        await mappings.upsert(mappingRows, ['keyword']);
+      }
+    });
+
+    const reloaded = await this.reload();
+    return {
+      mode,
+      synonymGroups: reloaded.synonyms.length,
+      jobTitles: reloaded.jobTitles.length,
+      titleMappings: Object.keys(reloaded.titleMappings).length,
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import {
+  normalizeSearchText,
+  searchFilters,
+  vocabularyCoverage,
+} from './analytics';
+import { DEFAULT_VOCABULARY } from './vocabulary';
+
+describe('search analytics helpers', () => {
+  it('should normalize queries for grouping', () => {
+    expect(normalizeSearchText('  Registered   Nurse ')).toBe(
+      'registered nurse',
+    );
+    expect(normalizeSearchText('   ')).toBeNull();
+  });
+
+  it('should keep only the filters that were set', () => {
+    expect(
+      searchFilters({
+        query: 'nurse',
+        workplace: [],
+        seniority: ['senior'],
+        radiusKm: 25,
+        sort: 'newest',
+      }),
+    ).toEqual({ seniority: ['senior'], sort: 'newest' });
+  });
+
+  it('should report vocabulary coverage of a query', () => {
+    const coverage = vocabularyCoverage(
+      'software developer',
+      DEFAULT_VOCABULARY,
+    );
+    expect(coverage.synonymKeys).toContain('software');
+    expect(vocabularyCoverage('zookeeper', DEFAULT_VOCABULARY)).toEqual({
+      inJobTitles: false,
+      synonymKeys: [],
+    });
+  });
+});
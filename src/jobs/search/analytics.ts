@@ -0,0 +1,69 @@
+import type { JobSearchParams } from '../jobs.service';
+import type { Vocabulary } from './vocabulary';
+
+/**
+ * Search analytics: what gets searched, what finds nothing and what nobody
+ * clicks. Reports group first-page searches by normalized query.
+ */
+export const DEFAULT_REPORT_DAYS = 30;
+export const MAX_REPORT_DAYS = 365;
+export const DEFAULT_REPORT_LIMIT = 50;
+export const MAX_REPORT_LIMIT = 500;
+
+export type AnalyticsReport = 'top' | 'zero-results' | 'no-clicks';
+
+/**
+ * Lowercase, trim and collapse whitespace so "Nurse " and "nurse" group together
+ */
+export function normalizeSearchText(
+  value: string | null | undefined,
+): string | null {
+  const normalized = (value ?? '').trim().replace(/\s+/g, ' ').toLowerCase();
+  return normalized || null;
+}
+
+/**
+ * Filters besides query and location, with unset ones dropped
+ */
+export function searchFilters(
+  params: JobSearchParams & { sort?: string },
+): Record<string, unknown> {
+  const filters: Record<string, unknown> = {
+    isEmailAvailable: params.isEmailAvailable,
+    jobFunction: params.jobFunction,
+    scoreBucket: params.scoreBucket,
+    region: params.region,
+    country: params.country,
+    near: params.near,
+    radiusKm: params.near ? params.radiusKm : undefined,
+    workplace: params.workplace?.length ? params.workplace : undefined,
+    seniority: params.seniority?.length ? params.seniority : undefined,
+    minSalary: params.minSalary,
+    maxSalary: params.maxSalary,
+    sort: params.sort,
+  };
+  for (const key of Object.keys(filters)) {
+    if (filters[key] === undefined || filters[key] === '') delete filters[key];
+  }
+  return filters;
+}
+
+/**
+ * Where a reported query stands in the vocabulary: whether it already is a
+ * catalog title and which synonym groups its words trigger (as expandTokens does)
+ */
+export function vocabularyCoverage(query: string, vocabulary: Vocabulary) {
+  const words = query.split(/[^\p{L}\p{N}+]+/u).filter(Boolean);
+  return {
+    inJobTitles: vocabulary.jobTitles.some((t) => t.toLowerCase() === query),
+    synonymKeys: vocabulary.synonyms
+      .filter((g) =>
+        words.some(
+          (w) =>
+            w.includes(g.key) ||
+            (g.bidirectional && g.terms.some((t) => t.toLowerCase() === w)),
+        ),
+      )
+      .map((g) => g.key),
+  };
+}
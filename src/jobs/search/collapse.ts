@@ -0,0 +1,26 @@
+/**
+ * collapse=true for /jobs/search: one representative per duplicate cluster
+ * (the newest matching posting), with its matching siblings listed on it.
+ * Siblings are evaluated against the same WHERE conditions as the search,
+ * re-targeted from alias jp to alias dup.
+ */
+export const SIBLING_ALIAS = 'dup';
+
+/**
+ * Search conditions (written over alias jp) applied to alias dup
+ */
+export function siblingConditions(whereConditions: string[]): string {
+  return whereConditions
+    .map((c) => `(${c.replace(/\bjp\./g, `${SIBLING_ALIAS}.`)})`)
+    .join(' AND ');
+}
+
+/**
+ * True for rows without a cluster, and for the newest matching row of each cluster
+ */
+export function collapseCondition(whereConditions: string[]): string {
+  const siblings = whereConditions.length
+    ? ` AND ${siblingConditions(whereConditions)}`
+    : '';
+  return `(jp.cluster_id IS NULL OR NOT EXISTS (SELECT 1 FROM job_postings ${SIBLING_ALIAS} WHERE ${SIBLING_ALIAS}.cluster_id = jp.cluster_id AND (${SIBLING_ALIAS}.created_at, ${SIBLING_ALIAS}.id) > (jp.created_at, jp.id)${siblings}))`;
+}
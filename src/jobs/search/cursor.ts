@@ -0,0 +1,47 @@
+/**
+ * Opaque keyset cursor for /jobs/search.
+ * Holds the sort key values of the last row on a page, base64url-encoded JSON.
+ */
+export interface SearchCursor {
+  // Sort mode the keys belong to
+  sort: string;
+  // Sort key values in ORDER BY order (last one is always jp.id)
+  keys: Array<string | number>;
+  // Reference time for time-dependent sort keys (blended mode), ISO string
+  refTime?: string;
+}
+
+export function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(
+    JSON.stringify({ s: cursor.sort, k: cursor.keys, t: cursor.refTime }),
+  ).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeCursor.
+ * Returns null when the value is malformed or was issued for another sort mode.
+ */
+export function decodeCursor(
+  value: string,
+  sort: string,
+  expectedKeys: number,
+): SearchCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    const keys = parsed?.k;
+    if (parsed?.s !== sort) return null;
+    if (!Array.isArray(keys) || keys.length !== expectedKeys) return null;
+    if (
+      !keys.every(
+        (k) => typeof k === 'string' || (typeof k === 'number' && isFinite(k)),
+      )
+    ) {
+      return null;
+    }
+    const refTime = typeof parsed.t === 'string' ? parsed.t : undefined;
+    if (refTime && isNaN(Date.parse(refTime))) return null;
+    return { sort, keys, refTime };
+  } catch {
+    return null;
+  }
+}
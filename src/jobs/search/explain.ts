@@ -0,0 +1,118 @@
+import { buildTsQuery } from './full-text';
+
+/**
+ * Explain mode for /jobs/search: per-result breakdown of what matched and how the
+ * score and sort keys were built, so relevance can be tuned without reading SQL.
+ */
+export type ExplainTermSource =
+  | 'query'
+  | 'corrected'
+  | 'synonym'
+  // Korean <-> English role dictionary
+  | 'translated';
+
+export interface ExplainTerm {
+  term: string;
+  source: ExplainTermSource;
+}
+
+// search_vector weight of each field (see SEARCH_VECTOR_EXPRESSION)
+export const EXPLAIN_FIELDS = [
+  { field: 'title', weight: 'A' },
+  { field: 'function', weight: 'B' },
+  { field: 'location', weight: 'C' },
+  { field: 'summary', weight: 'D' },
+] as const;
+
+export type ExplainField = (typeof EXPLAIN_FIELDS)[number]['field'];
+
+export interface ScoreComponent {
+  name: string;
+  // Fixed weight for CASE WHEN components, multiplier for ranked ones
+  weight: number;
+  sql: string;
+}
+
+export interface TermFieldCheck {
+  term: string;
+  field: ExplainField;
+  tsQuery: string;
+}
+
+/**
+ * Label each expanded token with where it came from
+ */
+export function explainTerms(
+  baseTokens: string[],
+  correctedTokens: string[],
+  expandedTokens: string[],
+  translatedTokens: string[] = [],
+): ExplainTerm[] {
+  const base = new Set(baseTokens);
+  const corrected = new Set(correctedTokens);
+  const translated = new Set(translatedTokens);
+  return expandedTokens.map((term) => ({
+    term,
+    source: base.has(term)
+      ? 'query'
+      : corrected.has(term)
+        ? 'corrected'
+        : translated.has(term)
+          ? 'translated'
+          : 'synonym',
+  }));
+}
+
+/**
+ * One weight-restricted tsquery per (term, field); terms without lexemes are dropped
+ */
+export function termFieldChecks(terms: ExplainTerm[]): TermFieldCheck[] {
+  const checks: TermFieldCheck[] = [];
+  for (const { term } of terms) {
+    for (const { field, weight } of EXPLAIN_FIELDS) {
+      const tsQuery = buildTsQuery([term], weight);
+      if (tsQuery) checks.push({ term, field, tsQuery });
+    }
+  }
+  return checks;
+}
+
+/**
+ * 1-based positions of the tsqueries in the :param text[] that match the row
+ */
+export function matchedOrdinalsSql(param: string): string {
+  return `ARRAY(SELECT x.i FROM unnest(CAST(:${param} AS text[])) WITH ORDINALITY AS x(q, i) WHERE jp.search_vector @@ to_tsquery('english', x.q))`;
+}
+
+/**
+ * Postgres returns bigint[] as strings (or a '{1,2}' literal from some drivers)
+ */
+export function parseOrdinals(value: unknown): number[] {
+  if (Array.isArray(value)) return value.map(Number);
+  if (typeof value === 'string') {
+    const inner = value.replace(/^\{|\}$/g, '');
+    return inner ? inner.split(',').map(Number) : [];
+  }
+  return [];
+}
+
+/**
+ * Group matched (term, field) checks into per-term field lists, in term order
+ */
+export function groupTermMatches(
+  terms: ExplainTerm[],
+  checks: TermFieldCheck[],
+  ordinals: number[],
+): (ExplainTerm & { fields: ExplainField[] })[] {
+  const fieldsByTerm = new Map<string, ExplainField[]>();
+  for (const ordinal of ordinals) {
+    const check = checks[ordinal - 1];
+    if (!check) continue;
+    const fields = fieldsByTerm.get(check.term) ?? [];
+    fields.push(check.field);
+    fieldsByTerm.set(check.term, fields);
+  }
+  return terms
+    .filter((t) => fieldsByTerm.has(t.term))
+    .map((t) => ({ ...t, fields: fieldsByTerm.get(t.term)! }));
+}
@@ -0,0 +1,105 @@
+/**
+ * Facet aggregations for /jobs/search.
+ * Each facet groups the rows matching the search WHERE clause by one SQL expression,
+ * and every facet value maps back onto a search filter parameter.
+ */
+export type FacetName =
+  | 'function'
+  | 'location'
+  | 'email'
+  | 'score'
+  | 'workplace'
+  | 'seniority';
+
+export const FACET_NAMES: FacetName[] = [
+  'function',
+  'location',
+  'email',
+  'score',
+  'workplace',
+  'seniority',
+];
+
+// Max values returned for open-ended facets (function, location)
+export const FACET_VALUE_LIMIT = 20;
+
+/**
+ * Suitability Score buckets. min is inclusive, max is exclusive.
+ * Keys double as values for the scoreBucket filter.
+ */
+export const SCORE_BUCKETS: { key: string; min: number; max?: number }[] = [
+  { key: '90-100', min: 90 },
+  { key: '80-89', min: 80, max: 90 },
+  { key: '70-79', min: 70, max: 80 },
+  { key: '50-69', min: 50, max: 70 },
+  { key: '0-49', min: 0, max: 50 },
+];
+
+const SCORE_EXPR = "CAST(jp.data->>'Suitability Score' AS NUMERIC)";
+
+export const NORMALIZED_LOCATION_EXPR =
+  "regexp_replace(lower(btrim(jp.data->>'job_location')), '\\s+', ' ', 'g')";
+
+// Same definition as the isEmailAvailable=true filter
+export const EMAIL_AVAILABLE_EXPR =
+  "(jp.resume_email IS NOT NULL AND jp.resume_email != '')";
+
+export const FACET_EXPRESSIONS: Record<FacetName, string> = {
+  function: "btrim(jp.data->>'job_function')",
+  location: NORMALIZED_LOCATION_EXPR,
+  email: `(CASE WHEN ${EMAIL_AVAILABLE_EXPR} THEN 'true' ELSE 'false' END)`,
+  score: `(CASE ${SCORE_BUCKETS.map(
+    (b) => `WHEN ${SCORE_EXPR} >= ${b.min} THEN '${b.key}'`,
+  ).join(' ')} END)`,
+  workplace: 'jp.workplace_type',
+  seniority: 'jp.seniority',
+};
+
+/**
+ * SQL condition for a scoreBucket filter value, or null when the key is unknown
+ */
+export function scoreBucketCondition(key: string): string | null {
+  const bucket = SCORE_BUCKETS.find((b) => b.key === key);
+  if (!bucket) return null;
+  const parts = [`${SCORE_EXPR} >= ${bucket.min}`];
+  if (bucket.max !== undefined) parts.push(`${SCORE_EXPR} < ${bucket.max}`);
+  return `(${parts.join(' AND ')})`;
+}
+
+/**
+ * Search filter parameters that select the rows of a facet value
+ */
+export function facetFilter(
+  facet: FacetName,
+  value: string,
+): Record<string, string | boolean> {
+  switch (facet) {
+    case 'function':
+      return { jobFunction: value };
+    case 'location':
+      return { location: value };
+    case 'email':
+      return { isEmailAvailable: value === 'true' };
+    case 'score':
+      return { scoreBucket: value };
+    case 'workplace':
+      return { workplace: value };
+    case 'seniority':
+      return { seniority: value };
+  }
+}
+
+/**
+ * Parse the facets= option ("all" or a comma separated list).
+ * Returns null when an unknown facet name is given.
+ */
+export function parseFacets(value?: string): FacetName[] | null {
+  if (!value || value.trim() === '') return [];
+  if (value.trim() === 'all') return [...FACET_NAMES];
+  const names = value
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean);
+  if (names.some((n) => !FACET_NAMES.includes(n as FacetName))) return null;
+  return Array.from(new Set(names)) as FacetName[];
+}
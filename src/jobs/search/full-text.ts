@@ -0,0 +1,63 @@
+/**
+ * Weighted tsvector kept on job_postings.search_vector.
+ * Lexeme weights: job_title (A) > job_function (B) > job_location (C) > job_summary (D)
+ */
+export const SEARCH_VECTOR_EXPRESSION = [
+  `setweight(to_tsvector('english', coalesce(data->>'job_title', '')), 'A')`,
+  `setweight(to_tsvector('english', coalesce(data->>'job_function', '')), 'B')`,
+  `setweight(to_tsvector('english', coalesce(data->>'job_location', '')), 'C')`,
+  `setweight(to_tsvector('english', coalesce(data->>'job_summary', '')), 'D')`,
+].join(' || ');
+
+export const SEARCH_VECTOR_INDEX = 'idx_job_postings_search_vector';
+
+// pg_trgm GIN index on job_title for typo-tolerant matching
+export const TITLE_TRGM_INDEX = 'idx_job_postings_title_trgm';
+
+// pg_trgm GIN index on job_location for ILIKE filters and suggestions
+export const LOCATION_TRGM_INDEX = 'idx_job_postings_location_trgm';
+
+// ts_rank weight array is ordered {D, C, B, A}.
+// Legacy per-token ILIKE weights (summary 1, function 2, title 3) scaled so title = 1.0.
+// Location tokens used to weigh 4, but location relevance now comes from the
+// dedicated location filter (LOCATION_FILTER_WEIGHT), so it ranks below function.
+export const RANK_WEIGHTS = '{0.33, 0.5, 0.67, 1.0}';
+
+// ts_rank returns ~0.61 for a single weight-1.0 hit, so x5 puts a title hit back at ~3
+export const RANK_SCALE = 5;
+
+// Bonus when the whole query appears as a phrase in job_title (legacy weight 5)
+export const TITLE_PHRASE_WEIGHT = 5;
+
+// Multiplier for pg_trgm word_similarity (0..1) on job_title when fuzzy matching kicks in
+export const FUZZY_TITLE_WEIGHT = 3;
+
+// Bonus when job_location matches the location parameter (legacy weight 6)
+export const LOCATION_FILTER_WEIGHT = 6;
+
+/**
+ * Split free text into lexeme candidates safe to embed in a to_tsquery() string
+ */
+export function toLexemes(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Build a to_tsquery() string that matches any of the given terms.
+ * Multi-word terms become phrase queries ("software engineer" -> software <-> engineer).
+ * When `weight` is given, every lexeme is restricted to that tsvector weight (e.g. 'A' = title).
+ */
+export function buildTsQuery(terms: string[], weight?: string): string {
+  const suffix = weight ? `:${weight}` : '';
+  const parts = new Set<string>();
+  for (const term of terms) {
+    const lexemes = toLexemes(term);
+    if (lexemes.length === 0) continue;
+    const phrase = lexemes.map((l) => `${l}${suffix}`).join(' <-> ');
+    parts.add(lexemes.length > 1 ? `(${phrase})` : phrase);
+  }
+  return Array.from(parts).join(' | ');
+}
@@ -0,0 +1,75 @@
+import { parseLocation } from '../enrichment/location';
+
+/**
+ * Radius search over the latitude/longitude parsed from job_location at import time.
+ * Plain SQL haversine (no PostGIS), prefiltered by a bounding box on the lat/lon index.
+ */
+export const EARTH_RADIUS_KM = 6371;
+export const DEFAULT_RADIUS_KM = 50;
+export const MAX_RADIUS_KM = 1000;
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface BoundingBox {
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+}
+
+/**
+ * "43.65,-79.38" -> coordinates, null for anything else (place names are resolved by the caller)
+ */
+export function parseCoordinates(value: string): Coordinates | null {
+  const match = /^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/.exec(value);
+  if (!match) return null;
+  const latitude = Number(match[1]);
+  const longitude = Number(match[2]);
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+}
+
+/**
+ * near= value: coordinates, or a gazetteer city resolved to its coordinates
+ */
+export function resolveNear(value: string): Coordinates | null {
+  const coordinates = parseCoordinates(value);
+  if (coordinates) return coordinates;
+  const place = parseLocation(value);
+  return place?.latitude != null && place.longitude != null
+    ? { latitude: place.latitude, longitude: place.longitude }
+    : null;
+}
+
+/**
+ * Box containing every point within radiusKm (longitude span widens towards the poles)
+ */
+export function boundingBox(
+  center: Coordinates,
+  radiusKm: number,
+): BoundingBox {
+  const latDelta = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  const cosLat = Math.cos((center.latitude * Math.PI) / 180);
+  const lonDelta = cosLat > 1e-6 ? Math.min(latDelta / cosLat, 180) : 180;
+  return {
+    minLat: center.latitude - latDelta,
+    maxLat: center.latitude + latDelta,
+    minLon: center.longitude - lonDelta,
+    maxLon: center.longitude + lonDelta,
+  };
+}
+
+/**
+ * Great-circle distance in km from (:nearLat, :nearLon) to the posting
+ */
+export const DISTANCE_KM_EXPR =
+  `(${EARTH_RADIUS_KM} * 2 * ASIN(LEAST(1, SQRT(` +
+  'POWER(SIN(RADIANS(jp.latitude - CAST(:nearLat AS double precision)) / 2), 2) + ' +
+  'COS(RADIANS(CAST(:nearLat AS double precision))) * COS(RADIANS(jp.latitude)) * ' +
+  'POWER(SIN(RADIANS(jp.longitude - CAST(:nearLon AS double precision)) / 2), 2)))))';
+
+export const BOUNDING_BOX_CONDITION =
+  'jp.latitude BETWEEN :nearMinLat AND :nearMaxLat AND jp.longitude BETWEEN :nearMinLon AND :nearMaxLon';
@@ -0,0 +1,45 @@
+/**
+ * Highlighted match snippets for search results, rendered with Postgres ts_headline
+ */
+export interface HighlightOptions {
+  startMarker: string;
+  endMarker: string;
+  // Max words in the job_summary snippet
+  snippetWords: number;
+}
+
+export const DEFAULT_HIGHLIGHT_OPTIONS: HighlightOptions = {
+  startMarker: '<mark>',
+  endMarker: '</mark>',
+  snippetWords: 30,
+};
+
+export const MAX_SNIPPET_WORDS = 100;
+export const MAX_MARKER_LENGTH = 20;
+
+/**
+ * Markers are embedded as quoted ts_headline option values, so double quotes are not allowed
+ */
+export function isValidMarker(marker: string): boolean {
+  return (
+    marker.length > 0 &&
+    marker.length <= MAX_MARKER_LENGTH &&
+    !marker.includes('"')
+  );
+}
+
+/**
+ * ts_headline option string for the job_title (whole title) or job_summary (one fragment)
+ */
+export function headlineOptions(
+  opts: HighlightOptions,
+  field: 'title' | 'summary',
+): string {
+  const markers = `StartSel="${opts.startMarker}", StopSel="${opts.endMarker}"`;
+  if (field === 'title') {
+    return `${markers}, HighlightAll=true`;
+  }
+  const maxWords = Math.min(Math.max(opts.snippetWords, 3), MAX_SNIPPET_WORDS);
+  const minWords = Math.max(Math.floor(maxWords / 2), 1);
+  return `${markers}, MaxWords=${maxWords}, MinWords=${minWords}, MaxFragments=1, ShortWord=2`;
+}
@@ -0,0 +1,261 @@
+import { similarity } from './trigram';
+
+// Available job titles from frontend (seed data for the job_titles table)
+export const DEFAULT_JOB_TITLES = [
+  // Software & Engineering
+  'Software Engineer',
+  'Frontend Developer',
+  'Backend Developer',
+  'Full Stack Developer',
+  'DevOps Engineer',
+  'Mobile Developer',
+  'iOS Developer',
+  'Android Developer',
+  'Data Engineer',
+  'Cloud Engineer',
+  'Site Reliability Engineer',
+  'QA Engineer',
+  'Systems Architect',
+  'Embedded Systems Engineer',
+  'Game Developer',
+  'Machine Learning Engineer',
+  // Data & Analytics
+  'Data Scientist',
+  'Data Analyst',
+  'Business Analyst',
+  'Business Intelligence Developer',
+  'AI Researcher',
+  'Statistician',
+  'Database Administrator',
+  // Product & Design
+  'Product Manager',
+  'Project Manager',
+  'Product Owner',
+  'Scrum Master',
+  'UX Designer',
+  'UI Designer',
+  'Product Designer',
+  'Graphic Designer',
+  'Web Designer',
+  'Art Director',
+  'Creative Director',
+  // Marketing & Sales
+  'Marketing Manager',
+  'Social Media Manager',
+  'Content Strategist',
+  'SEO Specialist',
+  'Digital Marketing Specialist',
+  'Sales Representative',
+  'Account Manager',
+  'Account Executive',
+  'Customer Success Manager',
+  'Sales Engineer',
+  // IT & Support
+  'IT Support Specialist',
+  'System Administrator',
+  'Network Engineer',
+  'Cybersecurity Analyst',
+  'Information Security Manager',
+  'Help Desk Technician',
+  // HR & Operations
+  'Human Resources Manager',
+  'Recruiter',
+  'Talent Acquisition Specialist',
+  'Operations Manager',
+  'Office Manager',
+  'Executive Assistant',
+  // Finance
+  'Financial Analyst',
+  'Accountant',
+  'Auditor',
+  'Controller',
+  'Finance Manager',
+  // Healthcare & Nursing
+  'Practical Nurse',
+  'Registered Nurse',
+  'Nurse Practitioner',
+  'Nurse Manager',
+  'Nurse Educator',
+  'Nurse Administrator',
+  'Nurse Consultant',
+  'Nurse Director',
+  'Nurse Leader',
+  'Nurse Specialist',
+];
+
+// Special mappings for common searches: query keyword -> job titles
+// (seed data for the title_mappings table)
+export const DEFAULT_TITLE_MAPPINGS: Record<string, string[]> = {
+  software: [
+    'Software Engineer',
+    'Frontend Developer',
+    'Backend Developer',
+    'Full Stack Developer',
+    'DevOps Engineer',
+    'Mobile Developer',
+    'iOS Developer',
+    'Android Developer',
+    'Data Engineer',
+    'Cloud Engineer',
+    'Site Reliability Engineer',
+    'QA Engineer',
+    'Systems Architect',
+    'Embedded Systems Engineer',
+    'Game Developer',
+    'Machine Learning Engineer',
+  ],
+  engineer: [
+    'Software Engineer',
+    'DevOps Engineer',
+    'Data Engineer',
+    'Cloud Engineer',
+    'Site Reliability Engineer',
+    'QA Engineer',
+    'Systems Architect',
+    'Embedded Systems Engineer',
+    'Machine Learning Engineer',
+    'Sales Engineer',
+    'Network Engineer',
+  ],
+  developer: [
+    'Frontend Developer',
+    'Backend Developer',
+    'Full Stack Developer',
+    'Mobile Developer',
+    'iOS Developer',
+    'Android Developer',
+    'Game Developer',
+    'Business Intelligence Developer',
+  ],
+  frontend: [
+    'Frontend Developer',
+    'Full Stack Developer',
+    'Web Designer',
+    'UI Designer',
+    'UX Designer',
+  ],
+  backend: [
+    'Backend Developer',
+    'Full Stack Developer',
+    'Software Engineer',
+    'Data Engineer',
+  ],
+  nurse: [
+    'Practical Nurse',
+    'Registered Nurse',
+    'Nurse Practitioner',
+    'Nurse Manager',
+    'Nurse Educator',
+    'Nurse Administrator',
+    'Nurse Consultant',
+    'Nurse Director',
+    'Nurse Leader',
+    'Nurse Specialist',
+  ],
+  nursing: [
+    'Practical Nurse',
+    'Registered Nurse',
+    'Nurse Practitioner',
+    'Nurse Manager',
+    'Nurse Educator',
+    'Nurse Administrator',
+    'Nurse Consultant',
+    'Nurse Director',
+    'Nurse Leader',
+    'Nurse Specialist',
+  ],
+  data: [
+    'Data Scientist',
+    'Data Analyst',
+    'Data Engineer',
+    'Business Analyst',
+    'Business Intelligence Developer',
+    'Statistician',
+    'Database Administrator',
+  ],
+  product: ['Product Manager', 'Product Owner', 'Product Designer'],
+  design: [
+    'UX Designer',
+    'UI Designer',
+    'Product Designer',
+    'Graphic Designer',
+    'Web Designer',
+    'Art Director',
+    'Creative Director',
+  ],
+  marketing: [
+    'Marketing Manager',
+    'Social Media Manager',
+    'Content Strategist',
+    'SEO Specialist',
+    'Digital Marketing Specialist',
+  ],
+  sales: [
+    'Sales Representative',
+    'Account Manager',
+    'Account Executive',
+    'Customer Success Manager',
+    'Sales Engineer',
+  ],
+};
+
+/**
+ * Find related job titles based on search query
+ * Uses keyword matching to find relevant job titles,
+ * plus trigram similarity when fuzzyThreshold is given
+ */
+export function findRelatedJobTitles(
+  query: string,
+  jobTitles: string[],
+  titleMappings: Record<string, string[]>,
+  fuzzyThreshold?: number,
+): string[] {
+  const queryLower = query.toLowerCase().trim();
+  const related: string[] = [];
+
+  // Direct match
+  for (const title of jobTitles) {
+    if (title.toLowerCase().includes(queryLower)) {
+      related.push(title);
+    }
+  }
+
+  // Keyword-based matching
+  const keywords = queryLower.split(/\s+/);
+  for (const title of jobTitles) {
+    const titleLower = title.toLowerCase();
+    // Check if any keyword matches significant parts of the title
+    for (const keyword of keywords) {
+      if (keyword.length >= 3 && titleLower.includes(keyword)) {
+        if (!related.includes(title)) {
+          related.push(title);
+        }
+      }
+    }
+  }
+
+  // Fuzzy match for misspelled titles ("registerd nurse")
+  if (fuzzyThreshold !== undefined) {
+    for (const title of jobTitles) {
+      if (
+        !related.includes(title) &&
+        similarity(queryLower, title) >= fuzzyThreshold
+      ) {
+        related.push(title);
+      }
+    }
+  }
+
+  // Check special mappings
+  for (const [key, titles] of Object.entries(titleMappings)) {
+    if (queryLower.includes(key)) {
+      for (const title of titles) {
+        if (!related.includes(title)) {
+          related.push(title);
+        }
+      }
+    }
+  }
+
+  return related;
+}
@@ -0,0 +1,49 @@
+import {
+  koreanEquivalents,
+  segmentKoreanWord,
+  translateKoreanQuery,
+} from './korean';
+import { toLexemes } from './full-text';
+
+describe('translateKoreanQuery', () => {
+  it('should translate Korean role words to English terms', () => {
+    expect(translateKoreanQuery('간호사')).toEqual({
+      query: 'nurse',
+      terms: ['nurse', 'registered nurse'],
+      untranslated: [],
+    });
+    expect(translateKoreanQuery('소프트웨어 개발자')?.query).toBe(
+      'software developer',
+    );
+  });
+
+  it('should handle particles, compounds and mixed queries', () => {
+    expect(segmentKoreanWord('간호사를')).toEqual(['간호사']);
+    expect(segmentKoreanWord('데이터분석가')).toEqual(['데이터', '분석가']);
+    expect(translateKoreanQuery('java개발자 toronto')?.query).toBe(
+      'java developer toronto',
+    );
+    expect(translateKoreanQuery('title:간호사 -야간')).toEqual({
+      query: 'title:nurse -야간',
+      terms: ['nurse', 'registered nurse'],
+      untranslated: ['야간'],
+    });
+  });
+
+  it('should leave queries without Hangul alone', () => {
+    expect(translateKoreanQuery('nurse')).toBeNull();
+  });
+});
+
+describe('koreanEquivalents', () => {
+  it('should map English tokens back to Korean terms', () => {
+    expect(koreanEquivalents(['nurse'])).toEqual(['간호사']);
+    expect(koreanEquivalents(['toronto'])).toEqual([]);
+  });
+});
+
+describe('toLexemes', () => {
+  it('should keep Hangul words', () => {
+    expect(toLexemes('간호사 (RN)')).toEqual(['간호사', 'rn']);
+  });
+});
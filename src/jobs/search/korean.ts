@@ -0,0 +1,236 @@
+/**
+ * Korean query support. Postings are in English, so Korean role words in a
+ * query are translated to the English terms job titles use ("간호사" -> nurse,
+ * "소프트웨어 개발자" -> software developer) before tokenizing. In the other
+ * direction English role words also match the Korean term, for postings written
+ * in Korean.
+ */
+
+// Korean term -> English terms, the first one replaces the word in the query
+export const KOREAN_ROLE_TERMS: Record<string, string[]> = {
+  // Healthcare
+  간호사: ['nurse', 'registered nurse'],
+  간호조무사: ['nursing assistant', 'practical nurse'],
+  요양보호사: ['personal support worker', 'caregiver'],
+  간병인: ['caregiver', 'personal support worker'],
+  의사: ['physician', 'doctor'],
+  약사: ['pharmacist'],
+  치과위생사: ['dental hygienist'],
+  물리치료사: ['physiotherapist', 'physical therapist'],
+  사회복지사: ['social worker'],
+  상담사: ['counsellor', 'counselor'],
+  의료: ['medical', 'healthcare'],
+  보건: ['health'],
+  병원: ['hospital'],
+
+  // Education
+  교사: ['teacher'],
+  선생님: ['teacher'],
+  강사: ['instructor'],
+  보육교사: ['early childhood educator'],
+
+  // Software & data
+  개발자: ['developer', 'engineer'],
+  엔지니어: ['engineer'],
+  프로그래머: ['programmer', 'developer'],
+  소프트웨어: ['software'],
+  웹: ['web'],
+  앱: ['app', 'mobile'],
+  모바일: ['mobile'],
+  프론트엔드: ['frontend', 'front end'],
+  백엔드: ['backend', 'back end'],
+  풀스택: ['full stack'],
+  데이터: ['data'],
+  분석가: ['analyst'],
+  과학자: ['scientist'],
+  머신러닝: ['machine learning'],
+  인공지능: ['ai', 'artificial intelligence'],
+  시스템: ['systems'],
+  네트워크: ['network'],
+  클라우드: ['cloud'],
+  보안: ['security'],
+  테스트: ['test', 'qa'],
+  품질: ['quality'],
+  연구원: ['researcher'],
+
+  // Business
+  디자이너: ['designer'],
+  기획자: ['product manager', 'planner'],
+  제품: ['product'],
+  프로젝트: ['project'],
+  마케팅: ['marketing'],
+  마케터: ['marketer', 'marketing'],
+  영업: ['sales'],
+  회계: ['accounting', 'accountant'],
+  회계사: ['accountant'],
+  재무: ['finance'],
+  인사: ['human resources', 'hr'],
+  채용: ['recruiter', 'recruiting'],
+  비서: ['administrative assistant', 'secretary'],
+  사무: ['administrative', 'office'],
+  사무직: ['office', 'administrative'],
+  고객서비스: ['customer service'],
+  상담원: ['customer service representative', 'call center'],
+  관리자: ['manager', 'administrator'],
+  매니저: ['manager'],
+  팀장: ['team lead'],
+  건축가: ['architect'],
+
+  // Trades, food & logistics
+  요리사: ['cook', 'chef'],
+  셰프: ['chef'],
+  바리스타: ['barista'],
+  운전기사: ['driver'],
+  운전: ['driver'],
+  트럭: ['truck'],
+  배달: ['delivery'],
+  물류: ['logistics'],
+  창고: ['warehouse'],
+  생산직: ['production worker'],
+  기계: ['mechanical'],
+  전기: ['electrical'],
+  전기기사: ['electrician'],
+  용접공: ['welder'],
+  목수: ['carpenter'],
+  정비사: ['mechanic', 'technician'],
+  기술자: ['technician'],
+  청소: ['cleaner', 'janitor'],
+  경비: ['security guard'],
+
+  // Level and workplace
+  인턴: ['intern'],
+  신입: ['entry level', 'junior'],
+  주니어: ['junior'],
+  시니어: ['senior'],
+  원격: ['remote'],
+  재택: ['remote'],
+  재택근무: ['remote'],
+};
+
+// Particles attached to nouns ("간호사를", "개발자는"), longest first
+const PARTICLES = [
+  '에서',
+  '으로',
+  '은',
+  '는',
+  '이',
+  '가',
+  '을',
+  '를',
+  '의',
+  '에',
+  '로',
+  '와',
+  '과',
+  '도',
+];
+
+const HANGUL_WORD = /[가-힣]+/g;
+
+// English term -> Korean terms naming it
+const ENGLISH_TO_KOREAN = new Map<string, string[]>();
+for (const [korean, english] of Object.entries(KOREAN_ROLE_TERMS)) {
+  for (const term of english) {
+    const list = ENGLISH_TO_KOREAN.get(term) ?? [];
+    list.push(korean);
+    ENGLISH_TO_KOREAN.set(term, list);
+  }
+}
+
+const KOREAN_KEYS = Object.keys(KOREAN_ROLE_TERMS).sort(
+  (a, b) => b.length - a.length,
+);
+
+export function hasHangul(text: string): boolean {
+  return /[가-힣]/.test(text);
+}
+
+/**
+ * Dictionary terms a Hangul word is made of: the word itself, the word without
+ * a trailing particle, or a compound of dictionary terms ("소프트웨어개발자").
+ * Returns null when some part is unknown.
+ */
+export function segmentKoreanWord(word: string): string[] | null {
+  if (KOREAN_ROLE_TERMS[word]) return [word];
+  for (const particle of PARTICLES) {
+    if (word.length > particle.length && word.endsWith(particle)) {
+      const stem = word.slice(0, -particle.length);
+      if (KOREAN_ROLE_TERMS[stem]) return [stem];
+    }
+  }
+
+  // Greedy longest-first split of a compound
+  for (const key of KOREAN_KEYS) {
+    if (key.length < word.length && word.startsWith(key)) {
+      const rest = segmentKoreanWord(word.slice(key.length));
+      if (rest) return [key, ...rest];
+    }
+  }
+  return null;
+}
+
+export interface KoreanTranslation {
+  // Query with every known Korean word replaced by its first English term
+  query: string;
+  // Every English term of the translated words, for token expansion
+  terms: string[];
+  // Hangul words not in the dictionary (left in the query as they are)
+  untranslated: string[];
+}
+
+/**
+ * Translate the Korean words of a query. Returns null for queries without Hangul.
+ * Query syntax around the words (quotes, -, OR, field:) is kept.
+ */
+export function translateKoreanQuery(query: string): KoreanTranslation | null {
+  if (!hasHangul(query)) return null;
+
+  const terms: string[] = [];
+  const untranslated: string[] = [];
+  const translated = query.replace(
+    HANGUL_WORD,
+    (word: string, offset: number) => {
+      const parts = segmentKoreanWord(word);
+      if (!parts) {
+        untranslated.push(word);
+        return word;
+      }
+      for (const part of parts) terms.push(...KOREAN_ROLE_TERMS[part]);
+      const english = parts.map((part) => KOREAN_ROLE_TERMS[part][0]).join(' ');
+      // Keep "java개발자" from becoming one word
+      const before = /[\p{L}\p{N}]/u.test(query[offset - 1] ?? '') ? ' ' : '';
+      const after = /[\p{L}\p{N}]/u.test(query[offset + word.length] ?? '')
+        ? ' '
+        : '';
+      return `${before}${english}${after}`;
+    },
+  );
+
+  return {
+    query: translated.replace(/\s+/g, ' ').trim(),
+    terms: Array.from(new Set(terms)),
+    untranslated,
+  };
+}
+
+/**
+ * Korean terms for English query tokens ("nurse" -> 간호사)
+ */
+export function koreanEquivalents(tokens: string[]): string[] {
+  const result = new Set<string>();
+  for (const token of tokens) {
+    for (const korean of ENGLISH_TO_KOREAN.get(token.toLowerCase()) ?? []) {
+      result.add(korean);
+    }
+  }
+  return Array.from(result);
+}
+
+/**
+ * Dictionary terms starting with a Hangul prefix, for suggestions
+ */
+export function koreanTermsWithPrefix(prefix: string): string[] {
+  return Object.keys(KOREAN_ROLE_TERMS).filter((term) =>
+    term.startsWith(prefix),
+  );
+}
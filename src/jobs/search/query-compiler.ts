@@ -0,0 +1,88 @@
+import { buildTsQuery } from './full-text';
+import { EMAIL_AVAILABLE_EXPR } from './facets';
+import { QueryNode } from './query-parser';
+
+export interface CompiledQuery {
+  // WHERE condition over alias jp
+  sql: string;
+  params: Record<string, string | number>;
+  // Non-excluded text terms, used for relevance scoring
+  positiveTerms: string[];
+}
+
+export interface CompileOptions {
+  // Prefix for generated parameter names
+  paramPrefix?: string;
+  // Terms a free-text word should match in job_title (synonyms, related titles)
+  expandTerm?: (word: string) => string[];
+}
+
+// tsvector weight per scoped field (see SEARCH_VECTOR_EXPRESSION)
+const FIELD_WEIGHTS = { title: 'A', function: 'B', summary: 'D' } as const;
+
+/**
+ * Compile a parsed query into a SQL condition for the JobsService search query builder
+ */
+export function compileQuery(
+  ast: QueryNode,
+  options: CompileOptions = {},
+): CompiledQuery {
+  const prefix = options.paramPrefix ?? 'qx';
+  const expandTerm = options.expandTerm ?? ((word: string) => [word]);
+  const params: Record<string, string | number> = {};
+  const positiveTerms: string[] = [];
+  let counter = 0;
+
+  const param = (value: string | number) => {
+    const name = `${prefix}${counter++}`;
+    params[name] = value;
+    return `:${name}`;
+  };
+
+  const tsMatch = (terms: string[], weight: string) => {
+    const tsQuery = buildTsQuery(terms, weight);
+    // A term made only of characters to_tsquery drops can never match
+    if (!tsQuery) return 'FALSE';
+    return `jp.search_vector @@ to_tsquery('english', ${param(tsQuery)})`;
+  };
+
+  const visit = (node: QueryNode, negated: boolean): string => {
+    switch (node.type) {
+      case 'and':
+        return `(${node.children.map((c) => visit(c, negated)).join(' AND ')})`;
+      case 'or':
+        return `(${node.children.map((c) => visit(c, negated)).join(' OR ')})`;
+      case 'not':
+        return `NOT (${visit(node.child, !negated)})`;
+      case 'email':
+        return node.value
+          ? EMAIL_AVAILABLE_EXPR
+          : `NOT ${EMAIL_AVAILABLE_EXPR}`;
+      case 'score':
+        return `CAST(jp.data->>'Suitability Score' AS NUMERIC) ${node.op} ${param(node.value)}`;
+      case 'term': {
+        if (!negated && node.field !== 'location') {
+          positiveTerms.push(node.value);
+        }
+        if (node.field === 'location') {
+          const like = node.value.replace(/[\\%_]/g, (c) => `\\${c}`);
+          return `(jp.data->>'job_location') ILIKE ${param(`%${like}%`)} ESCAPE '\\'`;
+        }
+        if (node.field === null) {
+          // Free words behave like the plain search (synonyms, related titles);
+          // quoted phrases and excluded words match only themselves
+          return tsMatch(
+            node.phrase || negated
+              ? [node.value]
+              : [node.value, ...expandTerm(node.value)],
+            'A',
+          );
+        }
+        return tsMatch([node.value], FIELD_WEIGHTS[node.field]);
+      }
+    }
+  };
+
+  const sql = visit(ast, false);
+  return { sql, params, positiveTerms };
+}
@@ -0,0 +1,112 @@
+import { hasQuerySyntax, parseQuery, QuerySyntaxError } from './query-parser';
+import { compileQuery } from './query-compiler';
+
+describe('query parser', () => {
+  describe('hasQuerySyntax', () => {
+    it('should keep plain queries on the legacy path', () => {
+      expect(hasQuerySyntax('software engineer')).toBe(false);
+      expect(hasQuerySyntax('full-stack developer')).toBe(false);
+      expect(hasQuerySyntax('c++ or java')).toBe(false);
+    });
+
+    it('should detect advanced syntax', () => {
+      expect(hasQuerySyntax('"registered nurse"')).toBe(true);
+      expect(hasQuerySyntax('nurse -manager')).toBe(true);
+      expect(hasQuerySyntax('rn OR lpn')).toBe(true);
+      expect(hasQuerySyntax('location:toronto')).toBe(true);
+    });
+  });
+
+  describe('parseQuery', () => {
+    it('should parse exclusions and implicit AND', () => {
+      expect(parseQuery('nurse -manager')).toEqual({
+        type: 'and',
+        children: [
+          { type: 'term', field: null, value: 'nurse', phrase: false },
+          {
+            type: 'not',
+            child: {
+              type: 'term',
+              field: null,
+              value: 'manager',
+              phrase: false,
+            },
+          },
+        ],
+      });
+    });
+
+    it('should bind AND tighter than OR', () => {
+      const ast = parseQuery('rn OR lpn AND email:yes');
+      expect(ast.type).toBe('or');
+      if (ast.type === 'or') {
+        expect(ast.children[1]).toEqual({
+          type: 'and',
+          children: [
+            { type: 'term', field: null, value: 'lpn', phrase: false },
+            { type: 'email', value: true },
+          ],
+        });
+      }
+    });
+
+    it('should parse field scopes, phrases and score comparisons', () => {
+      expect(parseQuery('title:"registered nurse" score:>=70')).toEqual({
+        type: 'and',
+        children: [
+          {
+            type: 'term',
+            field: 'title',
+            value: 'registered nurse',
+            phrase: true,
+          },
+          { type: 'score', op: '>=', value: 70 },
+        ],
+      });
+    });
+
+    it.each([
+      ['"registered nurse', 'Unterminated quote'],
+      ['salary:100', 'Unknown field'],
+      ['score:high', 'Invalid score value'],
+      ['email:maybe', 'Invalid email value'],
+      ['nurse OR', 'Unexpected end of query'],
+      ['(nurse OR rn', 'Missing closing parenthesis'],
+      ['nurse)', 'Unexpected ")"'],
+    ])('should reject %s', (query, message) => {
+      expect(() => parseQuery(query)).toThrow(QuerySyntaxError);
+      expect(() => parseQuery(query)).toThrow(message);
+    });
+  });
+
+  describe('compileQuery', () => {
+    it('should compile to parameterized SQL and collect positive terms', () => {
+      const compiled = compileQuery(
+        parseQuery('nurse -manager location:toronto'),
+      );
+      expect(compiled.sql).toBe(
+        "(jp.search_vector @@ to_tsquery('english', :qx0) AND " +
+          "NOT (jp.search_vector @@ to_tsquery('english', :qx1)) AND " +
+          "(jp.data->>'job_location') ILIKE :qx2 ESCAPE '\\')",
+      );
+      expect(compiled.params).toEqual({
+        qx0: 'nurse:A',
+        qx1: 'manager:A',
+        qx2: '%toronto%',
+      });
+      expect(compiled.positiveTerms).toEqual(['nurse']);
+    });
+
+    it('should not expand excluded words', () => {
+      const compiled = compileQuery(parseQuery('nurse -manager'), {
+        expandTerm: (word) => (word === 'manager' ? ['supervisor'] : []),
+      });
+      expect(compiled.params).toEqual({ qx0: 'nurse:A', qx1: 'manager:A' });
+    });
+
+    it('should match location wildcards literally', () => {
+      const compiled = compileQuery(parseQuery('location:50%_off\\'));
+      expect(compiled.params).toEqual({ qx0: '%50\\%\\_off\\\\%' });
+    });
+  });
+});
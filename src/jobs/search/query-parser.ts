@@ -0,0 +1,271 @@
+/**
+ * Advanced query syntax for the q parameter.
+ *
+ *   "registered nurse"        exact phrase (in job_title)
+ *   nurse -manager            exclusion
+ *   nurse OR caregiver        explicit OR (juxtaposition means AND)
+ *   (rn OR lpn) AND toronto   grouping
+ *   title: function: location: summary:   field scoping, value may be quoted
+ *   email:yes  score:>70      email availability / Suitability Score comparison
+ */
+
+export type TextField = 'title' | 'function' | 'location' | 'summary';
+export type ScoreOperator = '>' | '>=' | '<' | '<=' | '=';
+
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  // field null = free text (title match with synonyms)
+  | { type: 'term'; field: TextField | null; value: string; phrase: boolean }
+  | { type: 'email'; value: boolean }
+  | { type: 'score'; op: ScoreOperator; value: number };
+
+export class QuerySyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly position: number,
+  ) {
+    super(`${message} (position ${position + 1})`);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+const TEXT_FIELDS: TextField[] = ['title', 'function', 'location', 'summary'];
+const FIELDS = [...TEXT_FIELDS, 'email', 'score'];
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'or' | 'and' | 'not'; pos: number }
+  | {
+      kind: 'term';
+      pos: number;
+      field: string | null;
+      value: string;
+      quoted: boolean;
+    };
+
+/**
+ * Whether q uses any advanced syntax. Plain queries keep the legacy token search.
+ */
+export function hasQuerySyntax(query: string): boolean {
+  return (
+    /["()]/.test(query) ||
+    /(^|\s)-\S/.test(query) ||
+    /(^|\s)(OR|AND)(\s|$)/.test(query) ||
+    new RegExp(`(^|[\\s(-])(${FIELDS.join('|')}):`, 'i').test(query)
+  );
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = (start: number): string => {
+    const end = input.indexOf('"', start + 1);
+    if (end === -1) {
+      throw new QuerySyntaxError('Unterminated quote', start);
+    }
+    i = end + 1;
+    return input.slice(start + 1, end);
+  };
+
+  const readBare = (): string => {
+    const start = i;
+    while (i < input.length && !/[\s()"]/.test(input[i])) i++;
+    return input.slice(start, i);
+  };
+
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    const pos = i;
+    if (ch === '(') {
+      tokens.push({ kind: 'lparen', pos });
+      i++;
+    } else if (ch === ')') {
+      tokens.push({ kind: 'rparen', pos });
+      i++;
+    } else if (ch === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      tokens.push({ kind: 'not', pos });
+      i++;
+    } else if (ch === '"') {
+      const value = readQuoted(i);
+      tokens.push({ kind: 'term', pos, field: null, value, quoted: true });
+    } else {
+      const fieldMatch = /^([A-Za-z]+):/.exec(input.slice(i));
+      if (fieldMatch) {
+        const field = fieldMatch[1].toLowerCase();
+        if (!FIELDS.includes(field)) {
+          throw new QuerySyntaxError(
+            `Unknown field "${fieldMatch[1]}" (expected one of ${FIELDS.join(', ')})`,
+            pos,
+          );
+        }
+        i += fieldMatch[0].length;
+        const quoted = input[i] === '"';
+        const value = quoted ? readQuoted(i) : readBare();
+        if (value.trim() === '') {
+          throw new QuerySyntaxError(`Missing value for ${field}:`, pos);
+        }
+        tokens.push({ kind: 'term', pos, field, value, quoted });
+        continue;
+      }
+
+      const word = readBare();
+      if (word === 'OR') tokens.push({ kind: 'or', pos });
+      else if (word === 'AND') tokens.push({ kind: 'and', pos });
+      else {
+        tokens.push({
+          kind: 'term',
+          pos,
+          field: null,
+          value: word,
+          quoted: false,
+        });
+      }
+    }
+  }
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly length: number,
+  ) {}
+
+  parse(): QueryNode {
+    if (this.tokens.length === 0) {
+      throw new QuerySyntaxError('Empty query', 0);
+    }
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next) {
+      throw new QuerySyntaxError(`Unexpected ${describe(next)}`, next.pos);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+    while (this.peek()?.kind === 'or') {
+      this.index++;
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  private parseAnd(): QueryNode {
+    const children = [this.parseUnary()];
+    for (;;) {
+      const next = this.peek();
+      if (!next || next.kind === 'or' || next.kind === 'rparen') break;
+      if (next.kind === 'and') this.index++;
+      children.push(this.parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.peek();
+    if (!token) {
+      throw new QuerySyntaxError('Unexpected end of query', this.length);
+    }
+    this.index++;
+
+    switch (token.kind) {
+      case 'not':
+        return { type: 'not', child: this.parseUnary() };
+      case 'lparen': {
+        const node = this.parseOr();
+        const close = this.peek();
+        if (close?.kind !== 'rparen') {
+          throw new QuerySyntaxError('Missing closing parenthesis', token.pos);
+        }
+        this.index++;
+        return node;
+      }
+      case 'term':
+        return toTermNode(token);
+      default:
+        throw new QuerySyntaxError(`Unexpected ${describe(token)}`, token.pos);
+    }
+  }
+}
+
+function describe(token: Token): string {
+  switch (token.kind) {
+    case 'or':
+      return 'OR';
+    case 'and':
+      return 'AND';
+    case 'not':
+      return '"-"';
+    case 'lparen':
+      return '"("';
+    case 'rparen':
+      return '")"';
+    case 'term':
+      return `"${token.value}"`;
+  }
+}
+
+function toTermNode(token: Extract<Token, { kind: 'term' }>): QueryNode {
+  const value = token.value.trim();
+
+  if (token.field === 'email') {
+    const v = value.toLowerCase();
+    if (['yes', 'true', '1'].includes(v)) return { type: 'email', value: true };
+    if (['no', 'false', '0'].includes(v))
+      return { type: 'email', value: false };
+    throw new QuerySyntaxError(
+      `Invalid email value "${value}" (expected yes or no)`,
+      token.pos,
+    );
+  }
+
+  if (token.field === 'score') {
+    const m = /^(>=|<=|>|<|=)?(\d+(?:\.\d+)?)$/.exec(value);
+    if (!m) {
+      throw new QuerySyntaxError(
+        `Invalid score value "${value}" (expected e.g. >70, <=50 or 80)`,
+        token.pos,
+      );
+    }
+    return {
+      type: 'score',
+      op: (m[1] ?? '=') as ScoreOperator,
+      value: Number(m[2]),
+    };
+  }
+
+  if (!/[\p{L}\p{N}]/u.test(value)) {
+    throw new QuerySyntaxError(
+      `"${value}" has no searchable characters`,
+      token.pos,
+    );
+  }
+
+  return {
+    type: 'term',
+    field: token.field as TextField | null,
+    value,
+    phrase: token.quoted && /\s/.test(value),
+  };
+}
+
+/**
+ * Parse q into an AST. Throws QuerySyntaxError for malformed queries.
+ */
+export function parseQuery(input: string): QueryNode {
+  return new Parser(tokenize(input), input.length).parse();
+}
@@ -0,0 +1,27 @@
+import { summaryKeywords, titleTokens } from './similar';
+
+describe('titleTokens', () => {
+  it('should keep role words and drop seniority markers', () => {
+    expect(titleTokens('Sr. Software Engineer II')).toEqual([
+      'software',
+      'engineer',
+    ]);
+    expect(titleTokens('Registered Nurse - Full Time')).toEqual([
+      'registered',
+      'nurse',
+    ]);
+  });
+});
+
+describe('summaryKeywords', () => {
+  it('should rank content words by frequency, ties in text order', () => {
+    const summary =
+      'We are hiring a nurse. The nurse will provide patient care and patient education in our clinic.';
+    expect(summaryKeywords(summary, 4)).toEqual([
+      'nurse',
+      'patient',
+      'hiring',
+      'provide',
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+import { toLexemes } from './full-text';
+
+/**
+ * "Similar jobs" for a posting: candidates share a title word (synonyms
+ * included) or the job_function, and are scored by title overlap, same
+ * job_function, distance and how many of the posting's summary keywords they use.
+ */
+
+// Multiplier for ts_rank of the original title words (title-only lexemes)
+export const SIMILAR_TITLE_WEIGHT = 5;
+
+// Bonus for the same job_function
+export const SIMILAR_FUNCTION_WEIGHT = 2;
+
+// Bonus for the same place, scaled down linearly to 0 at SIMILAR_NEARBY_KM
+export const SIMILAR_LOCATION_WEIGHT = 2;
+export const SIMILAR_NEARBY_KM = 100;
+
+// Multiplier for the share (0..1) of summary keywords a candidate contains
+export const SIMILAR_SUMMARY_WEIGHT = 3;
+export const SUMMARY_KEYWORD_LIMIT = 15;
+
+export const DEFAULT_SIMILAR_LIMIT = 10;
+export const MAX_SIMILAR_LIMIT = 50;
+
+// Words that say nothing about the role itself
+const STOPWORDS = new Set([
+  'a',
+  'about',
+  'all',
+  'also',
+  'an',
+  'and',
+  'any',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'can',
+  'for',
+  'from',
+  'has',
+  'have',
+  'in',
+  'is',
+  'it',
+  'its',
+  'job',
+  'may',
+  'more',
+  'must',
+  'not',
+  'of',
+  'on',
+  'or',
+  'our',
+  'that',
+  'the',
+  'their',
+  'this',
+  'to',
+  'we',
+  'will',
+  'with',
+  'work',
+  'you',
+  'your',
+  // Seniority and headcount markers are not what makes two roles alike
+  'i',
+  'ii',
+  'iii',
+  'iv',
+  'jr',
+  'junior',
+  'senior',
+  'sr',
+  'full',
+  'part',
+  'time',
+]);
+
+/**
+ * Role words of a job title ("Sr. Software Engineer II" -> software, engineer)
+ */
+export function titleTokens(title: string | null | undefined): string[] {
+  return Array.from(
+    new Set(
+      toLexemes(title ?? '').filter(
+        (t) => t.length > 1 && !STOPWORDS.has(t) && !/^\d+$/.test(t),
+      ),
+    ),
+  );
+}
+
+/**
+ * Most frequent content words of a summary, ties in order of appearance
+ */
+export function summaryKeywords(
+  summary: string | null | undefined,
+  limit = SUMMARY_KEYWORD_LIMIT,
+): string[] {
+  const counts = new Map<string, number>();
+  for (const word of toLexemes(summary ?? '')) {
+    if (word.length < 3 || STOPWORDS.has(word) || /^\d+$/.test(word)) continue;
+    counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  // Map keeps insertion order and sort is stable, so ties stay in text order
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([word]) => word);
+}
+
+/**
+ * Share (0..1) of the keyword tsqueries in the :param text[] that match the row
+ */
+export function keywordShareSql(param: string, keywordCount: number): string {
+  return `(CAST((SELECT count(*) FROM unnest(CAST(:${param} AS text[])) AS k(q) WHERE jp.search_vector @@ to_tsquery('english', k.q)) AS float) / ${keywordCount})`;
+}
+
+// Same title, location and summary as the posting (a re-post, not a similar job)
+export const DUPLICATE_CONDITION = [
+  `lower(coalesce(jp.data->>'job_title', '')) = :dupTitle`,
+  `lower(coalesce(jp.data->>'job_location', '')) = :dupLocation`,
+  `coalesce(jp.data->>'job_summary', '') = :dupSummary`,
+].join(' AND ');
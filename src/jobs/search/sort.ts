@@ -0,0 +1,124 @@
+/**
+ * Sort modes for /jobs/search.
+ * Every mode is a list of DESC keys ending with jp.id, so keyset cursors can use a
+ * single row comparison regardless of the mode.
+ */
+export type SortMode =
+  | 'relevance'
+  | 'newest'
+  | 'suitability'
+  | 'blended'
+  | 'salary';
+
+export const SORT_MODES: SortMode[] = [
+  'relevance',
+  'newest',
+  'suitability',
+  'blended',
+  'salary',
+];
+
+export interface SortKey {
+  // Label shown by explain mode
+  name: string;
+  // SQL expression ordered DESC
+  expr: string;
+  // Type the cursor value is cast back to
+  type: 'timestamptz' | 'numeric' | 'double precision' | 'uuid';
+  // Expression selected into the raw row to build the next cursor
+  // (created_at goes through text to keep microsecond precision)
+  selectExpr?: string;
+}
+
+/**
+ * Exponents for the blended mode:
+ * blended = (relevance + 1)^relevance * recency^recency * suitability^suitability
+ */
+export interface BlendWeights {
+  relevance: number;
+  recency: number;
+  suitability: number;
+  // Age in days at which the recency factor drops to 0.5
+  halfLifeDays: number;
+}
+
+export const DEFAULT_BLEND_WEIGHTS: BlendWeights = {
+  relevance: 1,
+  recency: 1,
+  suitability: 0.5,
+  halfLifeDays: 14,
+};
+
+// Missing scores sort last (scores are never negative)
+export const SUITABILITY_SORT_EXPR =
+  "COALESCE(CAST(jp.data->>'Suitability Score' AS NUMERIC), -1)";
+
+const CREATED_KEY: SortKey = {
+  name: 'created_at',
+  expr: 'jp.created_at',
+  type: 'timestamptz',
+  selectExpr: 'jp.created_at::text',
+};
+const SUITABILITY_KEY: SortKey = {
+  name: 'suitability',
+  expr: SUITABILITY_SORT_EXPR,
+  type: 'numeric',
+};
+// Highest annualized pay first; postings without a salary sort last
+export const SALARY_SORT_EXPR =
+  'COALESCE(jp.salary_annual_max, jp.salary_annual_min, -1)';
+
+const SALARY_KEY: SortKey = {
+  name: 'salary',
+  expr: SALARY_SORT_EXPR,
+  type: 'double precision',
+};
+const ID_KEY: SortKey = { name: 'id', expr: 'jp.id', type: 'uuid' };
+
+/**
+ * Blended score expression. :sortRefTime anchors the recency decay so that
+ * values stay stable across cursor pages.
+ */
+export function blendedScoreExpr(scoreExpr: string, w: BlendWeights): string {
+  const relevance = `POWER(GREATEST(${scoreExpr}, 0) + 1, ${w.relevance})`;
+  const ageDays = `GREATEST(EXTRACT(EPOCH FROM (CAST(:sortRefTime AS timestamptz) - jp.created_at)) / 86400, 0)`;
+  const recency = `POWER(0.5, ${ageDays} / ${w.halfLifeDays} * ${w.recency})`;
+  // Missing scores count as an average posting (50/100)
+  const suitability = `POWER((COALESCE(CAST(jp.data->>'Suitability Score' AS NUMERIC), 50) + 1) / 101.0, ${w.suitability})`;
+  return `CAST(${relevance} * ${recency} * ${suitability} AS double precision)`;
+}
+
+export function sortKeysFor(
+  mode: SortMode,
+  scoreExpr: string,
+  weights: BlendWeights,
+): SortKey[] {
+  switch (mode) {
+    case 'newest':
+      return [CREATED_KEY, SUITABILITY_KEY, ID_KEY];
+    case 'suitability':
+      return [SUITABILITY_KEY, CREATED_KEY, ID_KEY];
+    case 'salary':
+      return [SALARY_KEY, CREATED_KEY, ID_KEY];
+    case 'relevance':
+      return [
+        {
+          name: 'score',
+          expr: `CAST(${scoreExpr} AS double precision)`,
+          type: 'double precision',
+        },
+        CREATED_KEY,
+        ID_KEY,
+      ];
+    case 'blended':
+      return [
+        {
+          name: 'blended',
+          expr: blendedScoreExpr(scoreExpr, weights),
+          type: 'double precision',
+        },
+        CREATED_KEY,
+        ID_KEY,
+      ];
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Search-as-you-type suggestions for /jobs/suggest.
+ * Candidates come from the static vocabulary (job title catalog, role synonyms,
+ * Korean role terms) and from distinct job_title / job_location values in job_postings.
+ */
+export type SuggestionType = 'title' | 'location';
+export type SuggestionSource = 'catalog' | 'synonym' | 'korean' | 'postings';
+
+export interface SuggestionCandidate {
+  value: string;
+  type: SuggestionType;
+  source: SuggestionSource;
+  // Number of postings carrying the value (postings source only)
+  count?: number;
+}
+
+export interface Suggestion {
+  value: string;
+  type: SuggestionType;
+  sources: SuggestionSource[];
+  count: number;
+  score: number;
+}
+
+// Static sources are curated, so they outrank a handful of postings
+const SOURCE_BONUS: Record<SuggestionSource, number> = {
+  catalog: 2,
+  synonym: 1,
+  korean: 1,
+  postings: 0,
+};
+
+/**
+ * Whether the value starts with the prefix, or has a word starting with it
+ */
+export function matchesPrefix(value: string, prefix: string): boolean {
+  const v = value.toLowerCase();
+  const p = prefix.toLowerCase();
+  return v.startsWith(p) || v.includes(` ${p}`);
+}
+
+/**
+ * Merge candidates that differ only by case and rank them:
+ * log(1 + postings) + source bonus + 1 when the whole value starts with the prefix
+ */
+export function rankSuggestions(
+  candidates: SuggestionCandidate[],
+  prefix: string,
+  limit: number,
+): Suggestion[] {
+  const merged = new Map<string, Suggestion>();
+
+  for (const c of candidates) {
+    const key = `${c.type}:${c.value.trim().toLowerCase()}`;
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, {
+        value: c.value.trim(),
+        type: c.type,
+        sources: [c.source],
+        count: c.count ?? 0,
+        score: 0,
+      });
+      continue;
+    }
+    if (!existing.sources.includes(c.source)) existing.sources.push(c.source);
+    existing.count += c.count ?? 0;
+    // Prefer the curated spelling ("Software Engineer" over "software engineer")
+    if (c.source === 'catalog') existing.value = c.value.trim();
+  }
+
+  const p = prefix.toLowerCase();
+  const suggestions = Array.from(merged.values());
+  for (const s of suggestions) {
+    const bonus = Math.max(...s.sources.map((src) => SOURCE_BONUS[src]));
+    const leading = s.value.toLowerCase().startsWith(p) ? 1 : 0;
+    s.score = Math.log1p(s.count) + bonus + leading;
+  }
+
+  return suggestions
+    .sort((a, b) => b.score - a.score || a.value.localeCompare(b.value))
+    .slice(0, limit);
+}
@@ -676,14 +676,38 @@ export const ROLE_SYNONYMS: Record<string, string[]> = {
   rpn: ['rpn', 'registered practical nurse', 'nurse'],
 };
 
-export function expandTokens(baseTokens: string[]): string[] {
+/**
+ * A synonym group. One-way groups expand tokens containing `key` into `terms`
+ * (the ROLE_SYNONYMS behaviour); two-way groups also expand a token equal to any
+ * of their terms into the whole group.
+ */
+export interface SynonymDefinition {
+  key: string;
+  terms: string[];
+  bidirectional: boolean;
+}
+
+// Seed data for the synonym_groups table
+export const DEFAULT_SYNONYMS: SynonymDefinition[] = Object.entries(
+  ROLE_SYNONYMS,
+).map(([key, terms]) => ({ key, terms, bidirectional: false }));
+
+export function expandTokens(
+  baseTokens: string[],
+  synonyms: SynonymDefinition[] = DEFAULT_SYNONYMS,
+): string[] {
   const expanded = new Set<string>();
   for (const t of baseTokens) {
     const token = t.toLowerCase();
     expanded.add(token);
-    for (const k of Object.keys(ROLE_SYNONYMS)) {
-      if (token.includes(k)) {
-        for (const s of ROLE_SYNONYMS[k]) expanded.add(s);
+    for (const group of synonyms) {
+      const viaKey = token.includes(group.key);
+      const viaTerm =
+        group.bidirectional &&
+        group.terms.some((term) => term.toLowerCase() === token);
+      if (viaKey || viaTerm) {
+        if (group.bidirectional) expanded.add(group.key);
+        for (const s of group.terms) expanded.add(s);
       }
     }
   }
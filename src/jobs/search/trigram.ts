@@ -0,0 +1,104 @@
+/**
+ * Trigram similarity compatible with Postgres pg_trgm, used to correct misspelled
+ * query words against the known job vocabulary before hitting the database.
+ */
+
+export const DEFAULT_FUZZY_THRESHOLD = 0.4;
+
+/**
+ * Trigram set of a string, built the way pg_trgm does it:
+ * lowercase alphanumeric words, each padded with two spaces in front and one behind
+ */
+export function trigrams(text: string): Set<string> {
+  const result = new Set<string>();
+  const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u);
+  for (const word of words) {
+    if (!word) continue;
+    const padded = `  ${word} `;
+    for (let i = 0; i < padded.length - 2; i++) {
+      result.add(padded.slice(i, i + 3));
+    }
+  }
+  return result;
+}
+
+/**
+ * Same as pg_trgm similarity(): shared trigrams / union of trigrams
+ */
+export function similarity(a: string, b: string): number {
+  const ta = trigrams(a);
+  const tb = trigrams(b);
+  if (ta.size === 0 || tb.size === 0) return 0;
+  let shared = 0;
+  for (const t of ta) {
+    if (tb.has(t)) shared++;
+  }
+  return shared / (ta.size + tb.size - shared);
+}
+
+/**
+ * Lowercase single words taken from vocabulary phrases (job titles, synonym keys)
+ */
+export function buildVocabulary(phrases: string[]): Set<string> {
+  const vocabulary = new Set<string>();
+  for (const phrase of phrases) {
+    for (const word of phrase.toLowerCase().split(/[^\p{L}\p{N}]+/u)) {
+      if (word.length >= 2) vocabulary.add(word);
+    }
+  }
+  return vocabulary;
+}
+
+export interface QueryCorrection {
+  // Tokens with misspelled words replaced by their closest vocabulary word
+  tokens: string[];
+  // Corrected query text, or null when nothing was corrected
+  correctedQuery: string | null;
+  // Tokens that are neither known nor correctable
+  unknownTokens: string[];
+}
+
+/**
+ * Replace unknown tokens with the most similar vocabulary word above the threshold
+ */
+export function correctTokens(
+  tokens: string[],
+  vocabulary: Set<string>,
+  threshold = DEFAULT_FUZZY_THRESHOLD,
+): QueryCorrection {
+  const corrected: string[] = [];
+  const unknownTokens: string[] = [];
+  let changed = false;
+
+  for (const token of tokens) {
+    // Short tokens (rn, qa, ui...) are abbreviations, not typos
+    if (vocabulary.has(token) || token.length < 4 || /^\d+$/.test(token)) {
+      corrected.push(token);
+      continue;
+    }
+
+    let best: string | null = null;
+    let bestScore = threshold;
+    for (const word of vocabulary) {
+      const score = similarity(token, word);
+      if (score >= bestScore) {
+        best = word;
+        bestScore = score;
+      }
+    }
+
+    if (best) {
+      corrected.push(best);
+      changed = changed || best !== token;
+    } else {
+      corrected.push(token);
+      unknownTokens.push(token);
+    }
+  }
+
+  return {
+    tokens: corrected,
+    correctedQuery: changed ? corrected.join(' ') : null,
+    unknownTokens,
+  };
+}
@@ -0,0 +1,111 @@
+import { DEFAULT_JOB_TITLES, DEFAULT_TITLE_MAPPINGS } from './job-titles';
+import { DEFAULT_SYNONYMS, SynonymDefinition } from './synonyms';
+
+/**
+ * Search vocabulary: synonym groups, the job title catalog and keyword -> title mappings.
+ * Stored in the database and cached by VocabularyService; the defaults seed empty tables.
+ */
+export interface Vocabulary {
+  synonyms: SynonymDefinition[];
+  jobTitles: string[];
+  titleMappings: Record<string, string[]>;
+}
+
+export const DEFAULT_VOCABULARY: Vocabulary = {
+  synonyms: DEFAULT_SYNONYMS,
+  jobTitles: DEFAULT_JOB_TITLES,
+  titleMappings: DEFAULT_TITLE_MAPPINGS,
+};
+
+// Bumped when the export format changes
+export const VOCABULARY_EXPORT_VERSION = 1;
+
+export interface VocabularyDocument extends Vocabulary {
+  version: number;
+}
+
+export function normalizeKey(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/**
+ * Trim, drop empties and de-duplicate (case-insensitive, first spelling wins)
+ */
+export function normalizeList(values: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const v of values) {
+    const trimmed = v.trim();
+    const key = trimmed.toLowerCase();
+    if (!trimmed || seen.has(key)) continue;
+    seen.add(key);
+    result.push(trimmed);
+  }
+  return result;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
+
+/**
+ * Validate an imported dictionary document. Throws an Error describing the first problem.
+ */
+export function parseVocabularyDocument(input: unknown): Vocabulary {
+  if (!input || typeof input !== 'object') {
+    throw new Error('dictionary must be a JSON object');
+  }
+  const doc = input as Record<string, unknown>;
+  if (doc.version !== undefined && doc.version !== VOCABULARY_EXPORT_VERSION) {
+    throw new Error(`unsupported dictionary version ${String(doc.version)}`);
+  }
+
+  const synonymsInput = doc.synonyms ?? [];
+  if (!Array.isArray(synonymsInput)) {
+    throw new Error('synonyms must be an array');
+  }
+  const synonyms: SynonymDefinition[] = [];
+  const keys = new Set<string>();
+  synonymsInput.forEach((group, idx) => {
+    if (
+      !group ||
+      typeof group.key !== 'string' ||
+      !isStringArray(group.terms)
+    ) {
+      throw new Error(`synonyms[${idx}] needs a string key and terms array`);
+    }
+    const key = normalizeKey(group.key);
+    if (!key) throw new Error(`synonyms[${idx}].key is empty`);
+    if (keys.has(key)) throw new Error(`duplicate synonym key "${key}"`);
+    keys.add(key);
+    synonyms.push({
+      key,
+      terms: normalizeList(group.terms),
+      bidirectional: group.bidirectional === true,
+    });
+  });
+
+  const jobTitles = doc.jobTitles ?? [];
+  if (!isStringArray(jobTitles)) {
+    throw new Error('jobTitles must be an array of strings');
+  }
+
+  const mappingsInput = doc.titleMappings ?? {};
+  if (typeof mappingsInput !== 'object' || Array.isArray(mappingsInput)) {
+    throw new Error('titleMappings must be an object of keyword -> titles');
+  }
+  const titleMappings: Record<string, string[]> = {};
+  for (const [keyword, titles] of Object.entries(mappingsInput)) {
+    if (!isStringArray(titles)) {
+      throw new Error(`titleMappings.${keyword} must be an array of strings`);
+    }
+    const key = normalizeKey(keyword);
+    if (!key) throw new Error('titleMappings has an empty keyword');
+    titleMappings[key] = normalizeList([
+      ...(titleMappings[key] ?? []),
+      ...titles,
+    ]);
+  }
+
+  return { synonyms, jobTitles: normalizeList(jobTitles), titleMappings };
+}